@@ -55,7 +55,7 @@ const PIECE_GLYPHS: Record<PieceCode, string> = {
   p: '♟',
 };
 
-const BOARD_THEMES: Record<BoardColorTheme, { light: string; dark: string }> = {
+export const BOARD_THEMES: Record<BoardColorTheme, { light: string; dark: string }> = {
   green: { light: '#e8f0cf', dark: '#769656' },
   brown: { light: '#f0d9b5', dark: '#b58863' },
   blue: { light: '#dce9f7', dark: '#5d7fa3' },
@@ -77,6 +77,8 @@ export class InteractiveBoard {
   private highlights = new Set<string>();
   private userArrows = new Map<string, Arrow>();
   private engineArrow: Arrow | null = null;
+  // Marks mirrored from the video; a mark whose from and to match circles that square.
+  private videoAnnotations: Arrow[] = [];
 
   private dragState: DragState | null = null;
   private rightDrag: RightDragState | null = null;
@@ -149,6 +151,15 @@ export class InteractiveBoard {
     this.render();
   }
 
+  // Replaces the marks mirrored from the video. Kept apart from the user's own notes, which
+  // clearAnnotations() and setPosition() clear.
+  setVideoAnnotations(annotations: Arrow[]): void {
+    this.videoAnnotations = annotations.filter(
+      (annotation) => this.isSquare(annotation.from) && this.isSquare(annotation.to),
+    );
+    this.render();
+  }
+
   clearAnnotations(): void {
     this.highlights.clear();
     this.userArrows.clear();
@@ -320,6 +331,16 @@ export class InteractiveBoard {
       this.ctx.fillRect(coords.col * squareSize, coords.row * squareSize, squareSize, squareSize);
     }
 
+    this.ctx.globalAlpha = 0.8;
+    for (const annotation of this.videoAnnotations) {
+      if (annotation.from === annotation.to) {
+        this.drawSquareMark(annotation, squareSize);
+      } else {
+        this.drawArrow(annotation, squareSize, 5);
+      }
+    }
+    this.ctx.globalAlpha = 1;
+
     for (const arrow of this.userArrows.values()) {
       this.drawArrow(arrow, squareSize);
     }
@@ -400,6 +421,19 @@ export class InteractiveBoard {
     this.ctx.fill();
   }
 
+  private drawSquareMark(mark: Arrow, squareSize: number): void {
+    const center = this.squareCenter(mark.from, squareSize);
+    if (!center) {
+      return;
+    }
+
+    this.ctx.strokeStyle = mark.color;
+    this.ctx.lineWidth = Math.max(2, squareSize * 0.07);
+    this.ctx.beginPath();
+    this.ctx.arc(center.x, center.y, squareSize * 0.44, 0, Math.PI * 2);
+    this.ctx.stroke();
+  }
+
   private squareCenter(square: string, squareSize: number): { x: number; y: number } | null {
     const coords = this.squareToCoords(square);
     if (!coords) {
@@ -1,5 +1,15 @@
+import type { BoardCorners } from '../vision/board-detector';
 import type { VisionPipelineUpdate } from '../vision/pipeline';
 import { VisionPipeline } from '../vision/pipeline';
+import { AUTO_INFERENCE_BACKEND, isInferenceBackend } from '../vision/inference-backends';
+import { AUTO_CLASSIFIER_MODEL } from '../vision/model-registry';
+import { VIDEO_METADATA_STORAGE_KEY, type VideoMetadata } from '../shared/video-metadata';
+import { loadSettings, SETTINGS_STORAGE_KEY, type ExtensionSettings } from '../shared/settings';
+import { loadManualBoardRegion, saveManualBoardRegion } from '../shared/board-regions';
+import { loadPieceTemplates, savePieceTemplates } from '../shared/piece-templates';
+import { loadRecordedGames, RECORDED_GAMES_STORAGE_KEY, saveRecordedGames } from '../shared/recorded-games';
+import { GameRecorder } from '../panel/game-recorder';
+import { BoardRegionSelector } from './region-selector';
 
 const STORAGE_KEY = 'cvo:lastVisionUpdate';
 const PANEL_ID = 'cvo-status-panel';
@@ -7,19 +17,37 @@ const VIDEO_SCAN_INTERVAL_MS = 1000;
 const YOUTUBE_PLAYER_SELECTOR = '#movie_player, .html5-video-player, .ytp-chrome-controls, .ytp-player-content';
 
 type ShortcutCommand = 'pause-sync' | 'flip-board' | 'toggle-eval-bar' | 'toggle-best-move' | 'toggle-settings';
+type SeekMessage = { type: 'cvo:seek'; time: number };
+type SelectBoardMessage = { type: 'cvo:select-board'; index: number };
+type KeepCurrentGameMessage = { type: 'cvo:keep-current-game' };
 
 class ContentController {
   private readonly pipeline = new VisionPipeline();
+  private readonly regionSelector = new BoardRegionSelector();
+  // Games are recorded here rather than in the side panel, so moves made while it is closed
+  // are not lost; the panel shows what is stored.
+  private readonly recorder = new GameRecorder();
   private currentVideo: HTMLVideoElement | null = null;
   private scanIntervalId: number | null = null;
   private statusText: HTMLElement | null = null;
   private fenText: HTMLElement | null = null;
   private regionText: HTMLElement | null = null;
+  private selectRegionButton: HTMLButtonElement | null = null;
+  private clearRegionButton: HTMLButtonElement | null = null;
+  // Video the manual region and piece templates belong to; both are remembered per video ID.
+  private cachedVideoId: string | null = null;
+  private manualRegion: BoardCorners | null = null;
 
   init(): void {
     this.mountStatusPanel();
     this.bindKeyboardShortcuts();
-    this.startVideoScanning();
+    this.bindPanelMessages();
+    this.bindSettings();
+    this.bindPieceTemplates();
+    // Recording continues the stored games, so it waits for them to load.
+    void this.restoreRecordedGames().finally(() => {
+      this.startVideoScanning();
+    });
     window.addEventListener('beforeunload', () => {
       this.teardown();
     });
@@ -59,6 +87,83 @@ class ContentController {
     });
   }
 
+  private bindSettings(): void {
+    void loadSettings().then((settings) => {
+      this.applySettings(settings);
+    });
+
+    chrome.storage.onChanged.addListener((changes, areaName) => {
+      if (areaName !== 'local' || !changes[SETTINGS_STORAGE_KEY]) {
+        return;
+      }
+
+      const next = changes[SETTINGS_STORAGE_KEY].newValue as ExtensionSettings | undefined;
+      if (next) {
+        this.applySettings(next);
+      }
+    });
+  }
+
+  private applySettings(settings: ExtensionSettings): void {
+    this.pipeline.setCaptureInterval(settings.scanFrequencySec * 1000);
+    this.pipeline.setForceFlip(settings.forceFlipBoard);
+    this.pipeline.setStabilizationFrames(settings.stabilizationFrames);
+    this.pipeline.setStabilizationDwell(settings.stabilizationDwellSec * 1000);
+    this.pipeline.setPerspectiveCorrection(settings.perspectiveCorrection);
+    this.pipeline.setClassifierModel(
+      settings.classifierModel === AUTO_CLASSIFIER_MODEL ? null : settings.classifierModel,
+    );
+    this.pipeline.setInferenceBackend(
+      settings.inferenceBackend !== AUTO_INFERENCE_BACKEND && isInferenceBackend(settings.inferenceBackend)
+        ? settings.inferenceBackend
+        : null,
+    );
+  }
+
+  private bindPanelMessages(): void {
+    chrome.runtime.onMessage.addListener((message: unknown) => {
+      if (this.isSeekMessage(message) && this.currentVideo) {
+        this.currentVideo.currentTime = message.time;
+      }
+
+      if (this.isSelectBoardMessage(message)) {
+        this.pipeline.selectBoard(message.index);
+        this.updateStatus(`Switching to board ${message.index + 1}...`);
+      }
+
+      if (this.isKeepCurrentGameMessage(message)) {
+        this.recorder.keepCurrentGameOnly();
+        this.saveRecordedGames();
+      }
+    });
+  }
+
+  private isSeekMessage(value: unknown): value is SeekMessage {
+    if (!value || typeof value !== 'object') {
+      return false;
+    }
+
+    const message = value as { type?: string; time?: unknown };
+    return message.type === 'cvo:seek' && typeof message.time === 'number' && Number.isFinite(message.time);
+  }
+
+  private isSelectBoardMessage(value: unknown): value is SelectBoardMessage {
+    if (!value || typeof value !== 'object') {
+      return false;
+    }
+
+    const message = value as { type?: string; index?: unknown };
+    return message.type === 'cvo:select-board' && Number.isInteger(message.index) && (message.index as number) >= 0;
+  }
+
+  private isKeepCurrentGameMessage(value: unknown): value is KeepCurrentGameMessage {
+    if (!value || typeof value !== 'object') {
+      return false;
+    }
+
+    return (value as { type?: string }).type === 'cvo:keep-current-game';
+  }
+
   private isYouTubePlayerFocused(): boolean {
     const active = document.activeElement as HTMLElement | null;
     if (!active) {
@@ -102,12 +207,134 @@ class ContentController {
         <span class="cvo-panel__label">Board</span>
         <span id="cvo-region-value">-</span>
       </div>
+      <div class="cvo-panel__actions">
+        <button id="cvo-select-region" type="button">Select board</button>
+        <button id="cvo-clear-region" type="button" disabled>Auto-detect</button>
+      </div>
     `;
 
     document.body.append(panel);
     this.statusText = panel.querySelector('#cvo-status-value');
     this.fenText = panel.querySelector('#cvo-fen-value');
     this.regionText = panel.querySelector('#cvo-region-value');
+    this.selectRegionButton = panel.querySelector('#cvo-select-region');
+    this.clearRegionButton = panel.querySelector('#cvo-clear-region');
+
+    this.selectRegionButton?.addEventListener('click', () => {
+      this.startRegionSelection();
+    });
+    this.clearRegionButton?.addEventListener('click', () => {
+      this.clearManualRegion();
+    });
+  }
+
+  private startRegionSelection(): void {
+    if (this.regionSelector.isActive()) {
+      this.regionSelector.cancel();
+      return;
+    }
+
+    if (!this.currentVideo) {
+      this.updateStatus('No video to select a board on.');
+      return;
+    }
+
+    this.updateStatus('Outline the board on the video...');
+    this.regionSelector.start(
+      this.currentVideo,
+      (corners) => {
+        this.setManualRegion(corners);
+        if (this.cachedVideoId) {
+          void saveManualBoardRegion(this.cachedVideoId, corners);
+        }
+        this.updateStatus('Using selected board region');
+      },
+      () => {
+        this.updateStatus(this.manualRegion ? 'Using selected board region' : 'Tracking board...');
+      },
+    );
+  }
+
+  private clearManualRegion(): void {
+    this.setManualRegion(null);
+    if (this.cachedVideoId) {
+      void saveManualBoardRegion(this.cachedVideoId, null);
+    }
+    this.updateStatus('Auto-detecting board...');
+  }
+
+  private setManualRegion(corners: BoardCorners | null): void {
+    this.manualRegion = corners;
+    this.pipeline.setManualRegion(corners);
+    if (this.clearRegionButton) {
+      this.clearRegionButton.disabled = !corners;
+    }
+  }
+
+  // YouTube navigates between videos without reloading the page, so check on every scan.
+  private syncVideoCaches(): void {
+    const videoId = this.currentVideoId();
+    if (videoId === this.cachedVideoId) {
+      return;
+    }
+
+    this.cachedVideoId = videoId;
+    this.pipeline.resetModelSelection();
+    this.restoreManualRegion(videoId);
+    this.restorePieceTemplates(videoId);
+  }
+
+  private restoreManualRegion(videoId: string | null): void {
+    this.regionSelector.cancel();
+    this.setManualRegion(null);
+    if (!videoId) {
+      return;
+    }
+
+    void loadManualBoardRegion(videoId).then((corners) => {
+      if (corners && this.cachedVideoId === videoId) {
+        this.setManualRegion(corners);
+        this.updateStatus('Using saved board region');
+      }
+    });
+  }
+
+  private restorePieceTemplates(videoId: string | null): void {
+    this.pipeline.setPieceTemplates(null);
+    if (!videoId) {
+      return;
+    }
+
+    void loadPieceTemplates(videoId).then((templates) => {
+      if (templates && this.cachedVideoId === videoId) {
+        this.pipeline.setPieceTemplates(templates);
+      }
+    });
+  }
+
+  private bindPieceTemplates(): void {
+    this.pipeline.onPieceTemplates((templates) => {
+      if (this.cachedVideoId) {
+        void savePieceTemplates(this.cachedVideoId, templates);
+      }
+    });
+  }
+
+  private async restoreRecordedGames(): Promise<void> {
+    try {
+      const recorded = await loadRecordedGames();
+      if (recorded) {
+        this.recorder.restore(recorded);
+      }
+    } catch (error) {
+      console.warn('[Content] Failed to load recorded games', error);
+    }
+  }
+
+  private saveRecordedGames(): void {
+    void saveRecordedGames(this.recorder.getState()).catch((error) => {
+      console.warn('[Content] Failed to save recorded games', error);
+    });
   }
 
   private startVideoScanning(): void {
@@ -119,6 +346,7 @@ class ContentController {
 
   private scanAndAttachVideo(): void {
     const videoElement = document.querySelector('video') as HTMLVideoElement | null;
+    this.syncVideoCaches();
 
     if (!videoElement) {
       this.updateStatus('Waiting for video...');
@@ -146,18 +374,51 @@ class ContentController {
 
   private onPipelineUpdate(update: VisionPipelineUpdate): void {
     this.fenText?.replaceChildren(update.fen);
+    const boardCount = update.boardCandidates.length;
+    const boardLabel = boardCount > 1 && update.trackedBoardIndex >= 0 ? ` (${update.trackedBoardIndex + 1}/${boardCount})` : '';
     this.regionText?.replaceChildren(
-      `${update.boardRegion.x},${update.boardRegion.y} ${update.boardRegion.width}x${update.boardRegion.height}`,
+      `${update.boardRegion.x},${update.boardRegion.y} ${update.boardRegion.width}x${update.boardRegion.height}${boardLabel}`,
     );
     this.updateStatus(`Change: ${update.change}`);
 
-    const message = { type: 'cvo:vision-update', payload: update } as const;
+    const video = this.readVideoMetadata();
+    this.recorder.setVideo(video);
+    this.recorder.record(update);
+
+    const message = { type: 'cvo:vision-update', payload: update, video } as const;
     chrome.runtime.sendMessage(message, () => {
       if (chrome.runtime.lastError) {
         // Panel may be closed; update is still persisted to storage.
       }
     });
-    void chrome.storage.local.set({ [STORAGE_KEY]: update });
+    // The recorded games are stored with the update that changed them, so a panel opened later
+    // reads both in step.
+    const stored: Record<string, unknown> = { [STORAGE_KEY]: update, [VIDEO_METADATA_STORAGE_KEY]: video };
+    if (update.change !== 'no-change') {
+      stored[RECORDED_GAMES_STORAGE_KEY] = this.recorder.getState();
+    }
+    void chrome.storage.local.set(stored);
+  }
+
+  private readVideoMetadata(): VideoMetadata {
+    const videoId = this.currentVideoId();
+    const heading = document.querySelector('h1.ytd-watch-metadata, #title h1');
+    const channel = document.querySelector('ytd-video-owner-renderer ytd-channel-name a, #owner #channel-name a');
+    const published = document.querySelector<HTMLMetaElement>(
+      'meta[itemprop="datePublished"], meta[itemprop="uploadDate"]',
+    );
+
+    return {
+      videoId,
+      title: heading?.textContent?.trim() || document.title.replace(/\s*-\s*YouTube$/, ''),
+      channel: channel?.textContent?.trim() ?? '',
+      url: videoId ? `https://www.youtube.com/watch?v=${videoId}` : window.location.href,
+      publishedAt: published?.content || null,
+    };
+  }
+
+  private currentVideoId(): string | null {
+    return new URLSearchParams(window.location.search).get('v');
   }
 
   private updateStatus(text: string): void {
@@ -169,6 +430,7 @@ class ContentController {
       window.clearInterval(this.scanIntervalId);
       this.scanIntervalId = null;
     }
+    this.regionSelector.cancel();
     this.pipeline.stop();
     this.currentVideo = null;
   }
@@ -0,0 +1,201 @@
+import type { BoardCorners, Point } from '../vision/board-detector';
+
+const OVERLAY_ID = 'cvo-region-selector';
+const SVG_NS = 'http://www.w3.org/2000/svg';
+// Pointer travel (CSS px) that turns a click into a rectangle drag.
+const DRAG_THRESHOLD_PX = 6;
+
+// Lets the user outline the board over the video, either by dragging a rectangle or by
+// clicking its four corners. Corners are reported as fractions (0..1) of the video frame.
+export class BoardRegionSelector {
+  private overlay: HTMLDivElement | null = null;
+  private shape: SVGPolygonElement | null = null;
+  private onSelect: ((corners: BoardCorners) => void) | null = null;
+  private onCancel: (() => void) | null = null;
+  private clicks: Point[] = [];
+  private dragStart: Point | null = null;
+
+  private readonly onKeyDown = (event: KeyboardEvent): void => {
+    if (event.key === 'Escape') {
+      event.stopPropagation();
+      this.cancel();
+    }
+  };
+
+  isActive(): boolean {
+    return this.overlay !== null;
+  }
+
+  start(video: HTMLVideoElement, onSelect: (corners: BoardCorners) => void, onCancel?: () => void): void {
+    this.close();
+
+    this.onSelect = onSelect;
+    this.onCancel = onCancel ?? null;
+    this.clicks = [];
+    this.dragStart = null;
+
+    const overlay = document.createElement('div');
+    overlay.id = OVERLAY_ID;
+    overlay.className = 'cvo-region-selector';
+    this.positionOverlay(overlay, video);
+
+    const hint = document.createElement('div');
+    hint.className = 'cvo-region-selector__hint';
+    hint.textContent = 'Drag over the board, or click its four corners. Esc cancels.';
+
+    const svg = document.createElementNS(SVG_NS, 'svg');
+    svg.setAttribute('class', 'cvo-region-selector__canvas');
+    const shape = document.createElementNS(SVG_NS, 'polygon');
+    svg.append(shape);
+
+    overlay.append(svg, hint);
+    overlay.addEventListener('pointerdown', (event) => this.onPointerDown(event));
+    overlay.addEventListener('pointermove', (event) => this.onPointerMove(event));
+    overlay.addEventListener('pointerup', (event) => this.onPointerUp(event));
+
+    document.body.append(overlay);
+    window.addEventListener('keydown', this.onKeyDown, true);
+
+    this.overlay = overlay;
+    this.shape = shape;
+  }
+
+  cancel(): void {
+    const onCancel = this.onCancel;
+    this.close();
+    onCancel?.();
+  }
+
+  private close(): void {
+    window.removeEventListener('keydown', this.onKeyDown, true);
+    this.overlay?.remove();
+    this.overlay = null;
+    this.shape = null;
+    this.onSelect = null;
+    this.onCancel = null;
+  }
+
+  // Cover only the displayed picture, not the letterbox bars around it.
+  private positionOverlay(overlay: HTMLElement, video: HTMLVideoElement): void {
+    const content = this.contentRect(video);
+    overlay.style.left = `${content.left}px`;
+    overlay.style.top = `${content.top}px`;
+    overlay.style.width = `${content.width}px`;
+    overlay.style.height = `${content.height}px`;
+  }
+
+  private contentRect(video: HTMLVideoElement): DOMRect {
+    const box = video.getBoundingClientRect();
+    if (video.videoWidth === 0 || video.videoHeight === 0) {
+      return box;
+    }
+
+    const scale = Math.min(box.width / video.videoWidth, box.height / video.videoHeight);
+    const width = video.videoWidth * scale;
+    const height = video.videoHeight * scale;
+    return new DOMRect(box.left + (box.width - width) / 2, box.top + (box.height - height) / 2, width, height);
+  }
+
+  private onPointerDown(event: PointerEvent): void {
+    event.preventDefault();
+    this.overlay?.setPointerCapture(event.pointerId);
+    this.dragStart = this.localPoint(event);
+  }
+
+  private onPointerMove(event: PointerEvent): void {
+    if (!this.dragStart) {
+      return;
+    }
+
+    const point = this.localPoint(event);
+    if (this.isDrag(this.dragStart, point)) {
+      this.clicks = [];
+      this.drawShape(this.rectangle(this.dragStart, point));
+    }
+  }
+
+  private onPointerUp(event: PointerEvent): void {
+    const start = this.dragStart;
+    this.dragStart = null;
+    if (!start) {
+      return;
+    }
+
+    const point = this.localPoint(event);
+    if (this.isDrag(start, point)) {
+      this.finish(this.rectangle(start, point));
+      return;
+    }
+
+    this.clicks.push(point);
+    this.drawShape(this.clicks);
+    if (this.clicks.length === 4) {
+      this.finish(this.orderCorners(this.clicks));
+    }
+  }
+
+  private finish(corners: Point[]): void {
+    const overlay = this.overlay;
+    const onSelect = this.onSelect;
+    if (!overlay || !onSelect) {
+      return;
+    }
+
+    const width = overlay.clientWidth;
+    const height = overlay.clientHeight;
+    const normalized = corners.map((point) => ({
+      x: Math.max(0, Math.min(1, point.x / width)),
+      y: Math.max(0, Math.min(1, point.y / height)),
+    })) as BoardCorners;
+
+    this.close();
+    onSelect(normalized);
+  }
+
+  private localPoint(event: PointerEvent): Point {
+    const box = this.overlay?.getBoundingClientRect();
+    return {
+      x: event.clientX - (box?.left ?? 0),
+      y: event.clientY - (box?.top ?? 0),
+    };
+  }
+
+  private isDrag(start: Point, end: Point): boolean {
+    return Math.hypot(end.x - start.x, end.y - start.y) >= DRAG_THRESHOLD_PX;
+  }
+
+  private rectangle(start: Point, end: Point): Point[] {
+    const left = Math.min(start.x, end.x);
+    const right = Math.max(start.x, end.x);
+    const top = Math.min(start.y, end.y);
+    const bottom = Math.max(start.y, end.y);
+    return [
+      { x: left, y: top },
+      { x: right, y: top },
+      { x: right, y: bottom },
+      { x: left, y: bottom },
+    ];
+  }
+
+  // Clicks may come in any order; sort them clockwise starting from the top-left corner.
+  private orderCorners(points: Point[]): Point[] {
+    const cx = points.reduce((sum, point) => sum + point.x, 0) / points.length;
+    const cy = points.reduce((sum, point) => sum + point.y, 0) / points.length;
+    const sorted = points
+      .slice()
+      .sort((a, b) => Math.atan2(a.y - cy, a.x - cx) - Math.atan2(b.y - cy, b.x - cx));
+
+    let start = 0;
+    for (let i = 1; i < sorted.length; i++) {
+      if (sorted[i].x + sorted[i].y < sorted[start].x + sorted[start].y) {
+        start = i;
+      }
+    }
+
+    return [...sorted.slice(start), ...sorted.slice(0, start)];
+  }
+
+  private drawShape(points: Point[]): void {
+    this.shape?.setAttribute('points', points.map((point) => `${point.x},${point.y}`).join(' '));
+  }
+}
@@ -0,0 +1,267 @@
+import { Chess } from 'chess.js';
+import { boardPart } from '../vision/fen-utils';
+import type { VideoMetadata } from '../shared/video-metadata';
+import type { VisionPipelineUpdate } from '../vision/pipeline';
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+export interface RecordedMove {
+  san: string;
+  uci: string;
+  fen: string;
+  timestamp: number;
+  videoTime: number;
+}
+
+export interface RecordedGame {
+  startFen: string;
+  startedAt: number;
+  startVideoTime: number;
+  video: VideoMetadata | null;
+  moves: RecordedMove[];
+}
+
+// Everything needed to pick recording up again after a reload, or to show it in the panel.
+export interface GameRecorderState {
+  games: RecordedGame[];
+  // Cursor within the last game: how many of its moves lead to the current position.
+  ply: number;
+  lastFen: string | null;
+  video: VideoMetadata | null;
+}
+
+// Accumulates inferred moves from vision updates into PGN games.
+// A move that does not follow legally from the recorded line (missed frames, misreads)
+// closes the current game and continues in a new one set up from the last known position.
+// Seeking back in the video moves a cursor within the game; replayed moves are not recorded twice.
+export class GameRecorder {
+  private readonly games: RecordedGame[] = [];
+  private current: RecordedGame | null = null;
+  private chess: Chess | null = null;
+  private ply = 0;
+  private lastFen: string | null = null;
+  private video: VideoMetadata | null = null;
+
+  setVideo(video: VideoMetadata | null): void {
+    this.video = video;
+    if (this.current && this.current.moves.length === 0) {
+      this.current.video = video;
+    }
+  }
+
+  record(update: VisionPipelineUpdate): void {
+    if (update.change === 'new-game' || !this.current) {
+      this.startGame(update.fen, update);
+    } else if (update.change === 'seek') {
+      this.rewindTo(update.fen);
+    } else if (update.change === 'move' && update.move) {
+      const { uci, san, color } = update.move;
+      if (!this.replayRecorded(uci) && !this.tryAppend(uci, san, update)) {
+        // The side to move of the previous position may have been a guess; restart from it
+        // with the mover's color so the move itself is kept.
+        const restartFen = this.lastFen ? this.lastFen.replace(/^(\S+) [wb]/, `$1 ${color}`) : update.fen;
+        this.startGame(restartFen, update);
+        if (!this.tryAppend(uci, san, update)) {
+          this.startGame(update.fen, update);
+        }
+      }
+    }
+
+    this.lastFen = update.fen;
+  }
+
+  clear(): void {
+    this.games.length = 0;
+    this.current = null;
+    this.chess = null;
+    this.ply = 0;
+    this.lastFen = null;
+  }
+
+  // Forget every game but the one being recorded.
+  keepCurrentGameOnly(): void {
+    this.games.length = 0;
+    if (this.current) {
+      this.games.push(this.current);
+    }
+  }
+
+  getState(): GameRecorderState {
+    return {
+      games: this.games.map((game) => ({ ...game, moves: game.moves.slice() })),
+      ply: this.ply,
+      lastFen: this.lastFen,
+      video: this.video,
+    };
+  }
+
+  restore(state: GameRecorderState): void {
+    this.clear();
+    this.games.push(...state.games.map((game) => ({ ...game, moves: game.moves.slice() })));
+    this.current = this.games[this.games.length - 1] ?? null;
+    this.lastFen = state.lastFen;
+    this.video = state.video;
+    if (!this.current) {
+      return;
+    }
+
+    try {
+      const chess = new Chess(this.current.startFen, { skipValidation: true });
+      const ply = Math.max(0, Math.min(state.ply, this.current.moves.length));
+      for (const move of this.current.moves.slice(0, ply)) {
+        this.applyUci(chess, move.uci);
+      }
+      this.chess = chess;
+      this.ply = ply;
+    } catch (error) {
+      // The next move starts a new game from the detected position instead.
+      console.warn('[GameRecorder] Failed to restore recorded game', error);
+      this.chess = null;
+      this.ply = this.current.moves.length;
+    }
+  }
+
+  getGames(): readonly RecordedGame[] {
+    return this.games;
+  }
+
+  hasMoves(): boolean {
+    return this.games.some((game) => game.moves.length > 0);
+  }
+
+  toPgn(): string {
+    return this.games
+      .filter((game) => game.moves.length > 0)
+      .map((game, index) => this.gameToPgn(game, index + 1))
+      .join('\n\n');
+  }
+
+  private startGame(fen: string, update: VisionPipelineUpdate): void {
+    if (this.current && this.current.moves.length === 0) {
+      this.games.pop();
+    }
+
+    try {
+      this.chess = new Chess(fen, { skipValidation: true });
+    } catch {
+      this.chess = null;
+    }
+
+    this.ply = 0;
+    this.current = {
+      startFen: fen,
+      startedAt: update.timestamp,
+      startVideoTime: update.videoTime,
+      video: this.video,
+      moves: [],
+    };
+    this.games.push(this.current);
+  }
+
+  private tryAppend(uci: string, san: string, update: VisionPipelineUpdate): boolean {
+    if (!this.chess || !this.current) {
+      return false;
+    }
+
+    try {
+      this.applyUci(this.chess, uci);
+    } catch {
+      return false;
+    }
+
+    // Playing on from a rewound position replaces whatever followed it.
+    this.current.moves.length = this.ply;
+    this.ply += 1;
+    this.current.moves.push({
+      san,
+      uci,
+      fen: update.fen,
+      timestamp: update.timestamp,
+      videoTime: update.videoTime,
+    });
+    return true;
+  }
+
+  private replayRecorded(uci: string): boolean {
+    const next = this.current?.moves[this.ply];
+    if (!this.chess || !next || next.uci !== uci) {
+      return false;
+    }
+
+    this.applyUci(this.chess, uci);
+    this.ply += 1;
+    return true;
+  }
+
+  private rewindTo(fen: string): void {
+    const game = this.current;
+    if (!game) {
+      return;
+    }
+
+    const board = boardPart(fen);
+    let ply = -1;
+    for (let i = game.moves.length - 1; i >= 0; i--) {
+      if (boardPart(game.moves[i].fen) === board) {
+        ply = i + 1;
+        break;
+      }
+    }
+    if (ply < 0 && boardPart(game.startFen) === board) {
+      ply = 0;
+    }
+    if (ply < 0) {
+      return;
+    }
+
+    try {
+      const chess = new Chess(game.startFen, { skipValidation: true });
+      for (const move of game.moves.slice(0, ply)) {
+        this.applyUci(chess, move.uci);
+      }
+      this.chess = chess;
+      this.ply = ply;
+    } catch (error) {
+      console.warn('[GameRecorder] Failed to rewind recorded game', error);
+    }
+  }
+
+  private applyUci(chess: Chess, uci: string): void {
+    chess.move({ from: uci.slice(0, 2), to: uci.slice(2, 4), promotion: uci[4] });
+  }
+
+  private gameToPgn(game: RecordedGame, round: number): string {
+    const chess = new Chess();
+    if (game.startFen !== START_FEN) {
+      // load() adds the SetUp / FEN headers for non-standard start positions.
+      chess.load(game.startFen, { skipValidation: true });
+    }
+
+    const video = game.video;
+    chess.setHeader('Event', video?.title || 'YouTube video');
+    chess.setHeader('Site', video?.url || '?');
+    chess.setHeader('Date', this.formatPgnDate(video?.publishedAt ?? null, game.startedAt));
+    chess.setHeader('Round', String(round));
+    if (video?.channel) {
+      chess.setHeader('Channel', video.channel);
+    }
+
+    for (const move of game.moves) {
+      this.applyUci(chess, move.uci);
+    }
+
+    return chess.pgn();
+  }
+
+  private formatPgnDate(publishedAt: string | null, fallback: number): string {
+    const match = publishedAt?.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (match) {
+      return `${match[1]}.${match[2]}.${match[3]}`;
+    }
+
+    const date = new Date(fallback);
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}.${month}.${day}`;
+  }
+}
@@ -0,0 +1,145 @@
+import { AUTO_INFERENCE_BACKEND, isInferenceBackend } from '../vision/inference-backends';
+import { AUTO_CLASSIFIER_MODEL } from '../vision/model-registry';
+import { VisionPipeline } from '../vision/pipeline';
+import type { ExtensionSettings } from '../shared/settings';
+import { GameRecorder, type RecordedGame } from './game-recorder';
+
+export interface OfflineAnalysisOptions {
+  // Video seconds between the frames read.
+  stepSec: number;
+}
+
+export interface OfflineAnalysisProgress {
+  videoTime: number;
+  duration: number;
+  games: number;
+  moves: number;
+}
+
+const DEFAULT_OPTIONS: OfflineAnalysisOptions = {
+  stepSec: 1,
+};
+
+// Reads a local video file by seeking through it step by step rather than playing it, so the
+// whole file is processed as fast as the pipeline can read frames. Moves go through the same
+// vision pipeline and game recorder as live videos.
+export class OfflineAnalyzer {
+  private readonly options: OfflineAnalysisOptions;
+  private readonly recorder = new GameRecorder();
+  private canceled = false;
+  private running = false;
+
+  constructor(options: Partial<OfflineAnalysisOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  getRecorder(): GameRecorder {
+    return this.recorder;
+  }
+
+  // Resolves with the games found, also when canceled partway through.
+  async analyze(
+    file: File,
+    settings: ExtensionSettings,
+    onProgress: (progress: OfflineAnalysisProgress) => void,
+  ): Promise<readonly RecordedGame[]> {
+    if (this.running) {
+      throw new Error('An analysis is already running');
+    }
+
+    this.running = true;
+    this.canceled = false;
+    this.recorder.clear();
+    this.recorder.setVideo({ videoId: null, title: file.name, channel: '', url: '', publishedAt: null });
+
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    video.muted = true;
+    video.preload = 'auto';
+    video.src = url;
+
+    const pipeline = new VisionPipeline(undefined, {
+      manualCapture: true,
+      perspectiveCorrection: settings.perspectiveCorrection,
+      stabilizationFrames: settings.stabilizationFrames,
+      stabilizationDwellMs: settings.stabilizationDwellSec * 1000,
+    });
+    this.applySettings(pipeline, settings);
+
+    try {
+      await this.waitFor(video, 'loadeddata');
+      const duration = video.duration;
+      if (!Number.isFinite(duration) || duration <= 0) {
+        throw new Error('The video has no known duration');
+      }
+
+      pipeline.start(video, (update) => {
+        this.recorder.record(update);
+      });
+
+      for (let time = 0; time <= duration && !this.canceled; time += this.options.stepSec) {
+        await this.seek(video, time);
+        await pipeline.processFrame();
+        onProgress(this.progress(time, duration));
+      }
+
+      return this.recorder.getGames();
+    } finally {
+      pipeline.destroy();
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+      this.running = false;
+    }
+  }
+
+  cancel(): void {
+    this.canceled = true;
+  }
+
+  private applySettings(pipeline: VisionPipeline, settings: ExtensionSettings): void {
+    pipeline.setForceFlip(settings.forceFlipBoard);
+    pipeline.setClassifierModel(settings.classifierModel === AUTO_CLASSIFIER_MODEL ? null : settings.classifierModel);
+    pipeline.setInferenceBackend(
+      settings.inferenceBackend !== AUTO_INFERENCE_BACKEND && isInferenceBackend(settings.inferenceBackend)
+        ? settings.inferenceBackend
+        : null,
+    );
+  }
+
+  private progress(videoTime: number, duration: number): OfflineAnalysisProgress {
+    const games = this.recorder.getGames().filter((game) => game.moves.length > 0);
+    return {
+      videoTime: Math.min(videoTime, duration),
+      duration,
+      games: games.length,
+      moves: games.reduce((total, game) => total + game.moves.length, 0),
+    };
+  }
+
+  private async seek(video: HTMLVideoElement, time: number): Promise<void> {
+    const seeked = this.waitFor(video, 'seeked');
+    video.currentTime = time;
+    await seeked;
+  }
+
+  private waitFor(video: HTMLVideoElement, eventName: 'loadeddata' | 'seeked'): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onEvent = (): void => {
+        video.removeEventListener('error', onError);
+        resolve();
+      };
+      const onError = (): void => {
+        video.removeEventListener(eventName, onEvent);
+        reject(new Error(video.error?.message || 'The video could not be decoded'));
+      };
+
+      video.addEventListener(eventName, onEvent, { once: true });
+      video.addEventListener('error', onError, { once: true });
+    });
+  }
+}
@@ -1,15 +1,29 @@
-import type { VisionPerformanceStats, VisionPipelineUpdate } from '../vision/pipeline';
+import type { BoardRegion, VisionPerformanceStats, VisionPipelineUpdate } from '../vision/pipeline';
+import { INFERENCE_BACKEND_LABELS } from '../vision/inference-backends';
+import { findClassifierModel } from '../vision/model-registry';
 import { InteractiveBoard, type BoardOrientation } from '../board/interactive-board';
 import { StockfishEngine, type EvalResult } from '../engine/stockfish-worker';
 import { SettingsController } from './settings';
+import { GameRecorder, type RecordedGame } from './game-recorder';
+import { OfflineAnalyzer } from './offline-analysis';
+import {
+  isGameRecorderState,
+  loadRecordedGames,
+  RECORDED_GAMES_STORAGE_KEY,
+  saveRecordedGames,
+} from '../shared/recorded-games';
 import { saveSettings, type ExtensionSettings } from '../shared/settings';
+import type { VideoMetadata } from '../shared/video-metadata';
 
 const STORAGE_KEY = 'cvo:lastVisionUpdate';
 const ANALYSIS_DEPTH = 20;
 
-type VisionUpdateMessage = { type: 'cvo:vision-update'; payload: VisionPipelineUpdate };
+type VisionUpdateMessage = { type: 'cvo:vision-update'; payload: VisionPipelineUpdate; video?: VideoMetadata };
 type ShortcutCommand = 'pause-sync' | 'flip-board' | 'toggle-eval-bar' | 'toggle-best-move' | 'toggle-settings';
 type ShortcutMessage = { type: 'cvo:shortcut'; command: ShortcutCommand };
+type SeekMessage = { type: 'cvo:seek'; time: number };
+type SelectBoardMessage = { type: 'cvo:select-board'; index: number };
+type KeepCurrentGameMessage = { type: 'cvo:keep-current-game' };
 
 class PanelController {
   private readonly boardHost: HTMLElement;
@@ -21,6 +35,8 @@ class PanelController {
   private readonly evalMarkerElement: HTMLElement;
   private readonly engineLinesElement: HTMLElement;
   private readonly promptElement: HTMLElement;
+  private readonly boardPickerElement: HTMLElement;
+  private readonly boardCandidatesElement: HTMLElement;
   private readonly syncToggleButton: HTMLButtonElement;
   private readonly autoToggleButton: HTMLButtonElement;
   private readonly nextUpdateButton: HTMLButtonElement;
@@ -29,6 +45,14 @@ class PanelController {
   private readonly openSettingsButton: HTMLButtonElement;
   private readonly acceptGameButton: HTMLButtonElement;
   private readonly dismissGameButton: HTMLButtonElement;
+  private readonly copyPgnButton: HTMLButtonElement;
+  private readonly downloadPgnButton: HTMLButtonElement;
+  private readonly offlineFileInput: HTMLInputElement;
+  private readonly offlineStatusElement: HTMLElement;
+  private readonly offlineGamesElement: HTMLElement;
+  private readonly offlineCancelButton: HTMLButtonElement;
+  private readonly offlineCopyPgnButton: HTMLButtonElement;
+  private readonly offlineDownloadPgnButton: HTMLButtonElement;
   private readonly performancePanel: HTMLElement;
   private readonly performanceToggleButton: HTMLButtonElement;
   private readonly performanceContent: HTMLElement;
@@ -36,9 +60,15 @@ class PanelController {
   private readonly perfFpsElement: HTMLElement;
   private readonly perfInferenceElement: HTMLElement;
   private readonly perfEngineElement: HTMLElement;
+  private readonly perfSquaresElement: HTMLElement;
+  private readonly perfSkippedElement: HTMLElement;
+  private readonly perfModelElement: HTMLElement;
+  private readonly perfBackendElement: HTMLElement;
 
   private readonly board: InteractiveBoard;
   private readonly engine = new StockfishEngine();
+  private readonly recorder = new GameRecorder();
+  private readonly offlineAnalyzer = new OfflineAnalyzer();
   private readonly settingsController = new SettingsController({
     onSettingsChanged: (settings) => {
       this.applySettings(settings);
@@ -57,6 +87,7 @@ class PanelController {
   private stockfishEvalMs = 0;
   private latestVisionPerformance: VisionPerformanceStats | null = null;
   private performanceExpanded = true;
+  private videoTabId: number | null = null;
 
   constructor() {
     this.boardHost = this.getById('board');
@@ -68,6 +99,8 @@ class PanelController {
     this.evalMarkerElement = this.getById('eval-marker');
     this.engineLinesElement = this.getById('engine-lines');
     this.promptElement = this.getById('new-game-prompt');
+    this.boardPickerElement = this.getById('board-picker');
+    this.boardCandidatesElement = this.getById('board-candidates');
     this.syncToggleButton = this.getById('sync-toggle') as HTMLButtonElement;
     this.autoToggleButton = this.getById('auto-toggle') as HTMLButtonElement;
     this.nextUpdateButton = this.getById('next-update') as HTMLButtonElement;
@@ -76,6 +109,14 @@ class PanelController {
     this.openSettingsButton = this.getById('open-settings') as HTMLButtonElement;
     this.acceptGameButton = this.getById('accept-new-game') as HTMLButtonElement;
     this.dismissGameButton = this.getById('dismiss-new-game') as HTMLButtonElement;
+    this.copyPgnButton = this.getById('copy-pgn') as HTMLButtonElement;
+    this.downloadPgnButton = this.getById('download-pgn') as HTMLButtonElement;
+    this.offlineFileInput = this.getById('offline-file') as HTMLInputElement;
+    this.offlineStatusElement = this.getById('offline-status');
+    this.offlineGamesElement = this.getById('offline-games');
+    this.offlineCancelButton = this.getById('offline-cancel') as HTMLButtonElement;
+    this.offlineCopyPgnButton = this.getById('offline-copy-pgn') as HTMLButtonElement;
+    this.offlineDownloadPgnButton = this.getById('offline-download-pgn') as HTMLButtonElement;
     this.performancePanel = this.getById('performance-panel');
     this.performanceToggleButton = this.getById('performance-toggle') as HTMLButtonElement;
     this.performanceContent = this.getById('performance-content');
@@ -83,6 +124,10 @@ class PanelController {
     this.perfFpsElement = this.getById('perf-fps');
     this.perfInferenceElement = this.getById('perf-inference');
     this.perfEngineElement = this.getById('perf-engine');
+    this.perfSquaresElement = this.getById('perf-squares');
+    this.perfSkippedElement = this.getById('perf-skipped');
+    this.perfModelElement = this.getById('perf-model');
+    this.perfBackendElement = this.getById('perf-backend');
 
     this.board = new InteractiveBoard(this.boardHost, {
       orientation: this.orientation,
@@ -105,8 +150,11 @@ class PanelController {
       this.engineLinesElement.textContent = 'Engine failed to initialize.';
     });
 
-    chrome.runtime.onMessage.addListener((message: unknown) => {
+    chrome.runtime.onMessage.addListener((message: unknown, sender) => {
       if (this.isVisionUpdateMessage(message)) {
+        if (sender.tab?.id !== undefined) {
+          this.videoTabId = sender.tab.id;
+        }
         this.onVisionUpdate(message.payload);
       }
 
@@ -115,8 +163,18 @@ class PanelController {
       }
     });
 
+    // The video tab records the games; the PGN export follows what it stores.
+    chrome.storage.onChanged.addListener((changes, areaName) => {
+      const recorded = changes[RECORDED_GAMES_STORAGE_KEY]?.newValue as unknown;
+      if (areaName === 'local' && isGameRecorderState(recorded)) {
+        this.recorder.restore(recorded);
+        this.updatePgnButtons();
+      }
+    });
+
     await this.loadLastUpdate();
     this.updatePerformanceStats();
+    this.updatePgnButtons();
   }
 
   private bindControls(): void {
@@ -157,8 +215,41 @@ class PanelController {
       this.performanceToggleButton.setAttribute('aria-expanded', String(this.performanceExpanded));
     });
 
+    this.copyPgnButton.addEventListener('click', () => {
+      void this.copyPgn(this.recorder, this.copyPgnButton);
+    });
+
+    this.downloadPgnButton.addEventListener('click', () => {
+      this.downloadPgn(this.recorder);
+    });
+
+    this.offlineFileInput.addEventListener('change', () => {
+      const file = this.offlineFileInput.files?.[0];
+      if (file) {
+        void this.analyzeFile(file);
+      }
+    });
+
+    this.offlineCancelButton.addEventListener('click', () => {
+      this.offlineAnalyzer.cancel();
+      this.offlineStatusElement.textContent = 'Canceling...';
+    });
+
+    this.offlineCopyPgnButton.addEventListener('click', () => {
+      void this.copyPgn(this.offlineAnalyzer.getRecorder(), this.offlineCopyPgnButton);
+    });
+
+    this.offlineDownloadPgnButton.addEventListener('click', () => {
+      this.downloadPgn(this.offlineAnalyzer.getRecorder());
+    });
+
+    // Starting fresh drops the earlier games from the PGN too, so the export matches the history.
     this.acceptGameButton.addEventListener('click', () => {
-      this.moveHistoryElement.textContent = '';
+      this.recorder.keepCurrentGameOnly();
+      this.renderRecordedHistory();
+      this.updatePgnButtons();
+      this.persistRecorder();
+      void this.sendToVideoTab({ type: 'cvo:keep-current-game' });
       this.promptElement.classList.add('hidden');
     });
 
@@ -188,9 +279,17 @@ class PanelController {
   private async loadLastUpdate(): Promise<void> {
     const stored = await chrome.storage.local.get(STORAGE_KEY);
     const maybeUpdate = stored[STORAGE_KEY] as unknown;
+    // Games recorded so far, including while the panel was closed.
+    const recorded = await loadRecordedGames();
+
+    if (recorded) {
+      this.recorder.restore(recorded);
+      this.renderRecordedHistory();
+    }
 
     if (this.isVisionUpdate(maybeUpdate)) {
-      this.applyVisionUpdate(maybeUpdate);
+      // Already recorded with the games it belongs to, so the restored history shows it.
+      this.applyVisionUpdate(maybeUpdate, false);
       return;
     }
 
@@ -201,6 +300,7 @@ class PanelController {
   private onVisionUpdate(update: VisionPipelineUpdate): void {
     this.latestVisionPerformance = update.performance;
     this.updatePerformanceStats();
+    this.renderBoardCandidates(update.boardCandidates ?? [], update.trackedBoardIndex ?? -1);
 
     if (!this.syncEnabled || !this.autoAdvance) {
       this.pendingSyncUpdate = update;
@@ -273,15 +373,16 @@ class PanelController {
     await saveSettings({ [key]: !value } as Partial<ExtensionSettings>);
   }
 
-  private applyVisionUpdate(update: VisionPipelineUpdate): void {
+  // `addToHistory` is false for an update the restored history already shows.
+  private applyVisionUpdate(update: VisionPipelineUpdate, addToHistory = true): void {
     this.pendingSyncUpdate = null;
     this.lastFen = update.fen;
     this.board.setPosition(update.fen);
+    this.board.setVideoAnnotations(update.annotations ?? []);
 
-    if (update.change !== 'no-change') {
-      const line = document.createElement('div');
-      line.textContent = `${new Date(update.timestamp).toLocaleTimeString()} - ${update.change}`;
-      this.moveHistoryElement.prepend(line);
+    if (update.change !== 'no-change' && addToHistory) {
+      const label = update.move ? `${update.move.san} (${update.move.uci})` : update.change;
+      this.moveHistoryElement.prepend(this.createHistoryEntry(update.videoTime, label));
     }
 
     if (update.change === 'new-game') {
@@ -291,6 +392,170 @@ class PanelController {
     void this.analyzePosition(update.fen, `Analyzing depth ${ANALYSIS_DEPTH}...`);
   }
 
+  private createHistoryEntry(videoTime: number, label: string): HTMLButtonElement {
+    const line = document.createElement('button');
+    line.type = 'button';
+    line.className = 'history-entry';
+    line.title = 'Seek video to this position';
+    line.textContent = `${this.formatVideoTime(videoTime)} - ${label}`;
+    line.addEventListener('click', () => {
+      void this.seekVideo(videoTime);
+    });
+    return line;
+  }
+
+  // The history rebuilt from the recorder's moves, newest first.
+  private renderRecordedHistory(): void {
+    const entries = this.recorder
+      .getGames()
+      .flatMap((game) => game.moves)
+      .map((move) => this.createHistoryEntry(move.videoTime, `${move.san} (${move.uci})`));
+    this.moveHistoryElement.replaceChildren(...entries.reverse());
+  }
+
+  private persistRecorder(): void {
+    void saveRecordedGames(this.recorder.getState()).catch((error) => {
+      console.warn('[Panel] Failed to save recorded games', error);
+    });
+  }
+
+  // One button per board found in the video; hidden while there is only one to track.
+  private renderBoardCandidates(candidates: BoardRegion[], trackedIndex: number): void {
+    this.boardPickerElement.classList.toggle('hidden', candidates.length < 2);
+    if (candidates.length < 2) {
+      this.boardCandidatesElement.replaceChildren();
+      return;
+    }
+
+    const buttons = candidates.map((region, index) => {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.className = 'board-candidate';
+      button.classList.toggle('active', index === trackedIndex);
+      button.textContent = `Board ${index + 1}`;
+      button.title = `${region.width}x${region.height} at ${region.x},${region.y}`;
+      button.addEventListener('click', () => {
+        void this.selectBoard(index);
+      });
+      return button;
+    });
+
+    this.boardCandidatesElement.replaceChildren(...buttons);
+  }
+
+  private async selectBoard(index: number): Promise<void> {
+    const message: SelectBoardMessage = { type: 'cvo:select-board', index };
+    await this.sendToVideoTab(message);
+  }
+
+  private async seekVideo(time: number): Promise<void> {
+    const message: SeekMessage = { type: 'cvo:seek', time };
+    await this.sendToVideoTab(message);
+  }
+
+  private async sendToVideoTab(message: SeekMessage | SelectBoardMessage | KeepCurrentGameMessage): Promise<void> {
+    let tabId = this.videoTabId;
+    if (tabId === null) {
+      const [activeTab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      tabId = activeTab?.id ?? null;
+    }
+
+    if (tabId === null) {
+      return;
+    }
+
+    chrome.tabs.sendMessage(tabId, message, () => {
+      if (chrome.runtime.lastError) {
+        // Video tab may have been closed or navigated away.
+      }
+    });
+  }
+
+  private updatePgnButtons(): void {
+    const hasMoves = this.recorder.hasMoves();
+    this.copyPgnButton.disabled = !hasMoves;
+    this.downloadPgnButton.disabled = !hasMoves;
+  }
+
+  private async copyPgn(recorder: GameRecorder, button: HTMLButtonElement): Promise<void> {
+    const pgn = recorder.toPgn();
+    if (!pgn) {
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(pgn);
+      button.textContent = 'Copied';
+    } catch (error) {
+      console.error('[Panel] Failed to copy PGN', error);
+      button.textContent = 'Copy failed';
+    }
+
+    window.setTimeout(() => {
+      button.textContent = 'Copy PGN';
+    }, 1500);
+  }
+
+  private downloadPgn(recorder: GameRecorder): void {
+    const pgn = recorder.toPgn();
+    if (!pgn) {
+      return;
+    }
+
+    const url = URL.createObjectURL(new Blob([`${pgn}\n`], { type: 'application/x-chess-pgn' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `chess-vision-${new Date().toISOString().slice(0, 10)}.pgn`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private async analyzeFile(file: File): Promise<void> {
+    if (this.offlineAnalyzer.isRunning()) {
+      return;
+    }
+
+    this.offlineFileInput.disabled = true;
+    this.offlineCancelButton.disabled = false;
+    this.offlineCopyPgnButton.disabled = true;
+    this.offlineDownloadPgnButton.disabled = true;
+    this.offlineGamesElement.textContent = '';
+    this.offlineStatusElement.textContent = `Loading ${file.name}...`;
+
+    try {
+      const games = await this.offlineAnalyzer.analyze(file, this.settingsController.getSettings(), (progress) => {
+        const percent = Math.round((progress.videoTime / progress.duration) * 100);
+        this.offlineStatusElement.textContent =
+          `${percent}% (${this.formatVideoTime(progress.videoTime)} / ${this.formatVideoTime(progress.duration)})` +
+          ` - ${progress.games} games, ${progress.moves} moves`;
+      });
+      this.renderOfflineGames(games);
+    } catch (error) {
+      console.error('[Panel] Video file analysis failed', error);
+      this.offlineStatusElement.textContent = `Could not analyze ${file.name}.`;
+    } finally {
+      this.offlineFileInput.disabled = false;
+      this.offlineFileInput.value = '';
+      this.offlineCancelButton.disabled = true;
+    }
+  }
+
+  private renderOfflineGames(games: readonly RecordedGame[]): void {
+    const played = games.filter((game) => game.moves.length > 0);
+    this.offlineStatusElement.textContent = played.length > 0 ? `Found ${played.length} games.` : 'No games found.';
+    this.offlineCopyPgnButton.disabled = played.length === 0;
+    this.offlineDownloadPgnButton.disabled = played.length === 0;
+
+    played.forEach((game, index) => {
+      const line = document.createElement('div');
+      const end = game.moves[game.moves.length - 1].videoTime;
+      line.textContent =
+        `Game ${index + 1}: ${this.formatVideoTime(game.startVideoTime)} - ${this.formatVideoTime(end)}` +
+        ` (${game.moves.length} moves)`;
+      this.offlineGamesElement.append(line);
+    });
+  }
+
   private async analyzePosition(fen: string, loadingText: string): Promise<void> {
     this.analysisGeneration += 1;
     const generation = this.analysisGeneration;
@@ -360,6 +625,47 @@ class PanelController {
     this.perfFpsElement.textContent = fps.toFixed(1);
     this.perfInferenceElement.textContent = `${Math.round(inferenceMs)} ms`;
     this.perfEngineElement.textContent = `${Math.round(this.stockfishEvalMs)} ms`;
+
+    // Fewer squares read means the classifier skipped unchanged ones this frame.
+    const stats = this.latestVisionPerformance;
+    this.perfSquaresElement.textContent = stats
+      ? `${stats.reclassifiedSquares}/64 (${Math.round(stats.classifierMs)} ms)`
+      : '-';
+    this.perfSkippedElement.textContent = String(stats?.skippedFrames ?? 0);
+
+    const modelId = this.latestVisionPerformance?.classifierModel ?? null;
+    let modelLabel = '-';
+    if (this.latestVisionPerformance) {
+      modelLabel = modelId ? findClassifierModel(modelId)?.label ?? modelId : 'Heuristic';
+    }
+    this.perfModelElement.textContent = modelLabel;
+
+    const backend = this.latestVisionPerformance?.inferenceBackend ?? null;
+    const benchmarks = this.latestVisionPerformance?.backendBenchmarks ?? [];
+    const chosen = benchmarks.find((benchmark) => benchmark.backend === backend);
+    let backendLabel = backend ? INFERENCE_BACKEND_LABELS[backend] : '-';
+    if (chosen && chosen.inferenceMs !== null) {
+      const details = [`${Math.round(chosen.inferenceMs)} ms`];
+      if (chosen.threads !== null) {
+        details.unshift(this.formatThreads(chosen.threads));
+      }
+      backendLabel += ` (${details.join(', ')})`;
+    }
+    this.perfBackendElement.textContent = backendLabel;
+    this.perfBackendElement.title = benchmarks
+      .map((benchmark) => {
+        const label = INFERENCE_BACKEND_LABELS[benchmark.backend];
+        if (benchmark.inferenceMs === null) {
+          return `${label}: failed`;
+        }
+        const threads = benchmark.threads !== null ? `, ${this.formatThreads(benchmark.threads)}` : '';
+        return `${label}: ${Math.round(benchmark.inferenceMs)} ms (load ${Math.round(benchmark.loadMs)} ms${threads})`;
+      })
+      .join('\n');
+  }
+
+  private formatThreads(threads: number): string {
+    return threads === 1 ? '1 thread' : `${threads} threads`;
   }
 
   private formatScore(result: EvalResult): string {
@@ -372,6 +678,15 @@ class PanelController {
     return `${sign}${score.toFixed(1)}`;
   }
 
+  private formatVideoTime(seconds: number): string {
+    const total = Math.max(0, Math.floor(seconds));
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor((total % 3600) / 60);
+    const secs = String(total % 60).padStart(2, '0');
+
+    return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+  }
+
   private formatLineScore(scoreCp: number | null, mate: number | null): string {
     if (mate !== null) {
       return mate > 0 ? `M${mate}` : `-M${Math.abs(mate)}`;
@@ -430,7 +745,11 @@ class PanelController {
     return (
       typeof update.fen === 'string' &&
       typeof update.timestamp === 'number' &&
-      (update.change === 'no-change' || update.change === 'move' || update.change === 'new-game') &&
+      typeof update.videoTime === 'number' &&
+      (update.change === 'no-change' ||
+        update.change === 'move' ||
+        update.change === 'seek' ||
+        update.change === 'new-game') &&
       !!update.boardRegion &&
       typeof update.boardRegion.x === 'number' &&
       typeof update.boardRegion.y === 'number' &&
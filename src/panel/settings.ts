@@ -5,6 +5,8 @@ import {
   SETTINGS_STORAGE_KEY,
   type ExtensionSettings,
 } from '../shared/settings';
+import { INFERENCE_BACKEND_LABELS, INFERENCE_BACKENDS } from '../vision/inference-backends';
+import { CLASSIFIER_MODELS } from '../vision/model-registry';
 
 export interface SettingsControllerCallbacks {
   onSettingsChanged?: (settings: ExtensionSettings) => void;
@@ -14,9 +16,16 @@ export class SettingsController {
   private readonly panel: HTMLElement;
   private readonly scanFrequencyInput: HTMLInputElement;
   private readonly scanFrequencyValue: HTMLElement;
+  private readonly stabilizationInput: HTMLInputElement;
+  private readonly stabilizationValue: HTMLElement;
+  private readonly stabilizationDwellInput: HTMLInputElement;
+  private readonly stabilizationDwellValue: HTMLElement;
   private readonly engineDepthInput: HTMLInputElement;
   private readonly engineDepthValue: HTMLElement;
   private readonly boardThemeSelect: HTMLSelectElement;
+  private readonly perspectiveInput: HTMLInputElement;
+  private readonly classifierModelSelect: HTMLSelectElement;
+  private readonly inferenceBackendSelect: HTMLSelectElement;
   private readonly autoSyncInput: HTMLInputElement;
   private readonly showEvalBarInput: HTMLInputElement;
   private readonly showBestMoveInput: HTMLInputElement;
@@ -31,9 +40,18 @@ export class SettingsController {
     this.panel = this.getById('settings-panel');
     this.scanFrequencyInput = this.getById('setting-scan-frequency') as HTMLInputElement;
     this.scanFrequencyValue = this.getById('setting-scan-frequency-value');
+    this.stabilizationInput = this.getById('setting-stabilization') as HTMLInputElement;
+    this.stabilizationValue = this.getById('setting-stabilization-value');
+    this.stabilizationDwellInput = this.getById('setting-stabilization-dwell') as HTMLInputElement;
+    this.stabilizationDwellValue = this.getById('setting-stabilization-dwell-value');
     this.engineDepthInput = this.getById('setting-engine-depth') as HTMLInputElement;
     this.engineDepthValue = this.getById('setting-engine-depth-value');
     this.boardThemeSelect = this.getById('setting-board-theme') as HTMLSelectElement;
+    this.perspectiveInput = this.getById('setting-perspective') as HTMLInputElement;
+    this.classifierModelSelect = this.getById('setting-classifier-model') as HTMLSelectElement;
+    this.renderModelOptions();
+    this.inferenceBackendSelect = this.getById('setting-inference-backend') as HTMLSelectElement;
+    this.renderBackendOptions();
     this.autoSyncInput = this.getById('setting-auto-sync') as HTMLInputElement;
     this.showEvalBarInput = this.getById('setting-show-eval-bar') as HTMLInputElement;
     this.showBestMoveInput = this.getById('setting-show-best-move') as HTMLInputElement;
@@ -81,6 +99,14 @@ export class SettingsController {
       this.scanFrequencyValue.textContent = `${Number(this.scanFrequencyInput.value).toFixed(1)}s`;
     });
 
+    this.stabilizationInput.addEventListener('input', () => {
+      this.stabilizationValue.textContent = this.formatFrames(Number(this.stabilizationInput.value));
+    });
+
+    this.stabilizationDwellInput.addEventListener('input', () => {
+      this.stabilizationDwellValue.textContent = `${Number(this.stabilizationDwellInput.value).toFixed(1)}s`;
+    });
+
     this.engineDepthInput.addEventListener('input', () => {
       this.engineDepthValue.textContent = `${Math.round(Number(this.engineDepthInput.value))}`;
     });
@@ -89,6 +115,14 @@ export class SettingsController {
       void this.persist({ scanFrequencySec: Number(this.scanFrequencyInput.value) });
     });
 
+    this.stabilizationInput.addEventListener('change', () => {
+      void this.persist({ stabilizationFrames: Number(this.stabilizationInput.value) });
+    });
+
+    this.stabilizationDwellInput.addEventListener('change', () => {
+      void this.persist({ stabilizationDwellSec: Number(this.stabilizationDwellInput.value) });
+    });
+
     this.engineDepthInput.addEventListener('change', () => {
       void this.persist({ engineDepth: Number(this.engineDepthInput.value) });
     });
@@ -97,6 +131,18 @@ export class SettingsController {
       void this.persist({ boardTheme: this.boardThemeSelect.value as ExtensionSettings['boardTheme'] });
     });
 
+    this.perspectiveInput.addEventListener('change', () => {
+      void this.persist({ perspectiveCorrection: this.perspectiveInput.checked });
+    });
+
+    this.classifierModelSelect.addEventListener('change', () => {
+      void this.persist({ classifierModel: this.classifierModelSelect.value });
+    });
+
+    this.inferenceBackendSelect.addEventListener('change', () => {
+      void this.persist({ inferenceBackend: this.inferenceBackendSelect.value });
+    });
+
     this.autoSyncInput.addEventListener('change', () => {
       void this.persist({ autoSync: this.autoSyncInput.checked });
     });
@@ -128,10 +174,19 @@ export class SettingsController {
     this.scanFrequencyInput.value = String(settings.scanFrequencySec);
     this.scanFrequencyValue.textContent = `${settings.scanFrequencySec.toFixed(1)}s`;
 
+    this.stabilizationInput.value = String(settings.stabilizationFrames);
+    this.stabilizationValue.textContent = this.formatFrames(settings.stabilizationFrames);
+
+    this.stabilizationDwellInput.value = String(settings.stabilizationDwellSec);
+    this.stabilizationDwellValue.textContent = `${settings.stabilizationDwellSec.toFixed(1)}s`;
+
     this.engineDepthInput.value = String(settings.engineDepth);
     this.engineDepthValue.textContent = String(settings.engineDepth);
 
     this.boardThemeSelect.value = settings.boardTheme;
+    this.perspectiveInput.checked = settings.perspectiveCorrection;
+    this.classifierModelSelect.value = settings.classifierModel;
+    this.inferenceBackendSelect.value = settings.inferenceBackend;
     this.autoSyncInput.checked = settings.autoSync;
     this.showEvalBarInput.checked = settings.showEvalBar;
     this.showBestMoveInput.checked = settings.showBestMoveArrow;
@@ -141,6 +196,32 @@ export class SettingsController {
     document.body.dataset.theme = settings.uiTheme;
   }
 
+  // "Auto" is in the markup; one option per registered model follows it.
+  private renderModelOptions(): void {
+    for (const model of CLASSIFIER_MODELS) {
+      const option = document.createElement('option');
+      option.value = model.id;
+      option.textContent = model.label;
+      option.title = model.description;
+      this.classifierModelSelect.append(option);
+    }
+  }
+
+  // Same for execution providers; unavailable ones fall back to the automatic choice.
+  private renderBackendOptions(): void {
+    for (const backend of INFERENCE_BACKENDS) {
+      const option = document.createElement('option');
+      option.value = backend;
+      option.textContent = INFERENCE_BACKEND_LABELS[backend];
+      this.inferenceBackendSelect.append(option);
+    }
+  }
+
+  private formatFrames(frames: number): string {
+    const rounded = Math.round(frames);
+    return rounded === 1 ? '1 frame' : `${rounded} frames`;
+  }
+
   private getById(id: string): HTMLElement {
     const element = document.getElementById(id);
     if (!element) {
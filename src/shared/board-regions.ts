@@ -0,0 +1,43 @@
+import type { BoardCorners } from '../vision/board-detector';
+
+export const MANUAL_BOARD_REGIONS_STORAGE_KEY = 'cvo:manualBoardRegions';
+
+// Hand-drawn board outlines keyed by YouTube video ID. Corners are fractions (0..1) of the
+// video frame so they survive quality changes.
+export type ManualBoardRegions = Record<string, BoardCorners>;
+
+export function isBoardCorners(value: unknown): value is BoardCorners {
+  return (
+    Array.isArray(value) &&
+    value.length === 4 &&
+    value.every(
+      (point) =>
+        !!point &&
+        typeof point === 'object' &&
+        Number.isFinite((point as { x?: unknown }).x) &&
+        Number.isFinite((point as { y?: unknown }).y),
+    )
+  );
+}
+
+async function loadManualBoardRegions(): Promise<ManualBoardRegions> {
+  const stored = await chrome.storage.local.get(MANUAL_BOARD_REGIONS_STORAGE_KEY);
+  const value = stored[MANUAL_BOARD_REGIONS_STORAGE_KEY] as unknown;
+  return value && typeof value === 'object' ? (value as ManualBoardRegions) : {};
+}
+
+export async function loadManualBoardRegion(videoId: string): Promise<BoardCorners | null> {
+  const regions = await loadManualBoardRegions();
+  const corners = regions[videoId];
+  return isBoardCorners(corners) ? corners : null;
+}
+
+export async function saveManualBoardRegion(videoId: string, corners: BoardCorners | null): Promise<void> {
+  const regions = await loadManualBoardRegions();
+  if (corners) {
+    regions[videoId] = corners;
+  } else {
+    delete regions[videoId];
+  }
+  await chrome.storage.local.set({ [MANUAL_BOARD_REGIONS_STORAGE_KEY]: regions });
+}
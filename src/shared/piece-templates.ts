@@ -0,0 +1,59 @@
+import type { PieceTemplateData } from '../vision/piece-templates';
+
+export const PIECE_TEMPLATES_STORAGE_KEY = 'cvo:pieceTemplates';
+
+// Templates are ~50 KB per video; keep only the most recently saved ones.
+const MAX_CACHED_VIDEOS = 20;
+
+interface CachedPieceTemplates {
+  savedAt: number;
+  data: PieceTemplateData;
+}
+
+type PieceTemplateCache = Record<string, CachedPieceTemplates>;
+
+export function isPieceTemplateData(value: unknown): value is PieceTemplateData {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const data = value as Partial<PieceTemplateData>;
+  return (
+    typeof data.size === 'number' &&
+    !!data.squareColors &&
+    typeof data.squareColors === 'object' &&
+    Array.isArray(data.templates) &&
+    data.templates.every(
+      (template) =>
+        typeof template?.label === 'string' &&
+        typeof template.light === 'boolean' &&
+        typeof template.pixels === 'string',
+    )
+  );
+}
+
+async function loadCache(): Promise<PieceTemplateCache> {
+  const stored = await chrome.storage.local.get(PIECE_TEMPLATES_STORAGE_KEY);
+  const value = stored[PIECE_TEMPLATES_STORAGE_KEY] as unknown;
+  return value && typeof value === 'object' ? (value as PieceTemplateCache) : {};
+}
+
+export async function loadPieceTemplates(videoId: string): Promise<PieceTemplateData | null> {
+  const cache = await loadCache();
+  const data = cache[videoId]?.data;
+  return isPieceTemplateData(data) ? data : null;
+}
+
+export async function savePieceTemplates(videoId: string, data: PieceTemplateData): Promise<void> {
+  const cache = await loadCache();
+  cache[videoId] = { savedAt: Date.now(), data };
+
+  const stale = Object.entries(cache)
+    .sort(([, a], [, b]) => b.savedAt - a.savedAt)
+    .slice(MAX_CACHED_VIDEOS);
+  for (const [id] of stale) {
+    delete cache[id];
+  }
+
+  await chrome.storage.local.set({ [PIECE_TEMPLATES_STORAGE_KEY]: cache });
+}
@@ -0,0 +1,62 @@
+import type { GameRecorderState, RecordedGame, RecordedMove } from '../panel/game-recorder';
+import { isVideoMetadata } from './video-metadata';
+
+export const RECORDED_GAMES_STORAGE_KEY = 'cvo:recordedGames';
+
+function isRecordedMove(value: unknown): value is RecordedMove {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const move = value as Partial<RecordedMove>;
+  return (
+    typeof move.san === 'string' &&
+    typeof move.uci === 'string' &&
+    typeof move.fen === 'string' &&
+    typeof move.timestamp === 'number' &&
+    typeof move.videoTime === 'number'
+  );
+}
+
+function isRecordedGame(value: unknown): value is RecordedGame {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const game = value as Partial<RecordedGame>;
+  return (
+    typeof game.startFen === 'string' &&
+    typeof game.startedAt === 'number' &&
+    typeof game.startVideoTime === 'number' &&
+    (game.video === null || isVideoMetadata(game.video)) &&
+    Array.isArray(game.moves) &&
+    game.moves.every(isRecordedMove)
+  );
+}
+
+export function isGameRecorderState(value: unknown): value is GameRecorderState {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const state = value as Partial<GameRecorderState>;
+  return (
+    Array.isArray(state.games) &&
+    state.games.every(isRecordedGame) &&
+    typeof state.ply === 'number' &&
+    (state.lastFen === null || typeof state.lastFen === 'string') &&
+    (state.video === null || isVideoMetadata(state.video))
+  );
+}
+
+// Games recorded by the video tab, with the metadata of the videos they came from. The side
+// panel reads them when opened, so moves made while it was closed are kept.
+export async function loadRecordedGames(): Promise<GameRecorderState | null> {
+  const stored = await chrome.storage.local.get(RECORDED_GAMES_STORAGE_KEY);
+  const value = stored[RECORDED_GAMES_STORAGE_KEY] as unknown;
+  return isGameRecorderState(value) ? value : null;
+}
+
+export async function saveRecordedGames(state: GameRecorderState): Promise<void> {
+  await chrome.storage.local.set({ [RECORDED_GAMES_STORAGE_KEY]: state });
+}
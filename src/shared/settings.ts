@@ -1,3 +1,6 @@
+import { AUTO_INFERENCE_BACKEND, isInferenceBackend } from '../vision/inference-backends';
+import { AUTO_CLASSIFIER_MODEL, findClassifierModel } from '../vision/model-registry';
+
 export const SETTINGS_STORAGE_KEY = 'cvo:settings';
 
 export type BoardTheme = 'green' | 'brown' | 'blue' | 'gray';
@@ -5,6 +8,9 @@ export type UiTheme = 'dark' | 'light';
 
 export interface ExtensionSettings {
   scanFrequencySec: number;
+  stabilizationFrames: number;
+  // A position on screen this long is accepted even before stabilizationFrames frames agree.
+  stabilizationDwellSec: number;
   engineDepth: number;
   boardTheme: BoardTheme;
   autoSync: boolean;
@@ -12,11 +18,18 @@ export interface ExtensionSettings {
   showBestMoveArrow: boolean;
   uiTheme: UiTheme;
   forceFlipBoard: boolean;
+  perspectiveCorrection: boolean;
   showPerformanceStats: boolean;
+  // Registry id of a pinned piece classifier, or 'auto'.
+  classifierModel: string;
+  // Pinned ONNX execution provider, or 'auto' to benchmark and use the fastest.
+  inferenceBackend: string;
 }
 
 export const DEFAULT_SETTINGS: ExtensionSettings = {
   scanFrequencySec: 1.5,
+  stabilizationFrames: 2,
+  stabilizationDwellSec: 1,
   engineDepth: 20,
   boardTheme: 'green',
   autoSync: true,
@@ -24,13 +37,20 @@ export const DEFAULT_SETTINGS: ExtensionSettings = {
   showBestMoveArrow: true,
   uiTheme: 'dark',
   forceFlipBoard: false,
+  perspectiveCorrection: false,
   showPerformanceStats: false,
+  classifierModel: AUTO_CLASSIFIER_MODEL,
+  inferenceBackend: AUTO_INFERENCE_BACKEND,
 };
 
 const SCAN_MIN = 0.5;
 const SCAN_MAX = 3;
 const DEPTH_MIN = 10;
 const DEPTH_MAX = 24;
+const STABILIZATION_MIN = 1;
+const STABILIZATION_MAX = 6;
+const DWELL_MIN = 0.5;
+const DWELL_MAX = 5;
 
 const BOARD_THEMES = new Set<BoardTheme>(['green', 'brown', 'blue', 'gray']);
 const UI_THEMES = new Set<UiTheme>(['dark', 'light']);
@@ -46,6 +66,14 @@ export function sanitizeSettings(candidate: Partial<ExtensionSettings> | undefin
     ? Math.round(clamp(value.scanFrequencySec, SCAN_MIN, SCAN_MAX) * 10) / 10
     : DEFAULT_SETTINGS.scanFrequencySec;
 
+  const stabilizationFrames = typeof value.stabilizationFrames === 'number'
+    ? Math.round(clamp(value.stabilizationFrames, STABILIZATION_MIN, STABILIZATION_MAX))
+    : DEFAULT_SETTINGS.stabilizationFrames;
+
+  const stabilizationDwellSec = typeof value.stabilizationDwellSec === 'number'
+    ? Math.round(clamp(value.stabilizationDwellSec, DWELL_MIN, DWELL_MAX) * 10) / 10
+    : DEFAULT_SETTINGS.stabilizationDwellSec;
+
   const engineDepth = typeof value.engineDepth === 'number'
     ? Math.round(clamp(value.engineDepth, DEPTH_MIN, DEPTH_MAX))
     : DEFAULT_SETTINGS.engineDepth;
@@ -60,6 +88,8 @@ export function sanitizeSettings(candidate: Partial<ExtensionSettings> | undefin
 
   return {
     scanFrequencySec,
+    stabilizationFrames,
+    stabilizationDwellSec,
     engineDepth,
     boardTheme,
     autoSync: typeof value.autoSync === 'boolean' ? value.autoSync : DEFAULT_SETTINGS.autoSync,
@@ -69,9 +99,18 @@ export function sanitizeSettings(candidate: Partial<ExtensionSettings> | undefin
       : DEFAULT_SETTINGS.showBestMoveArrow,
     uiTheme,
     forceFlipBoard: typeof value.forceFlipBoard === 'boolean' ? value.forceFlipBoard : DEFAULT_SETTINGS.forceFlipBoard,
+    perspectiveCorrection: typeof value.perspectiveCorrection === 'boolean'
+      ? value.perspectiveCorrection
+      : DEFAULT_SETTINGS.perspectiveCorrection,
     showPerformanceStats: typeof value.showPerformanceStats === 'boolean'
       ? value.showPerformanceStats
       : DEFAULT_SETTINGS.showPerformanceStats,
+    classifierModel: typeof value.classifierModel === 'string' && findClassifierModel(value.classifierModel)
+      ? value.classifierModel
+      : DEFAULT_SETTINGS.classifierModel,
+    inferenceBackend: isInferenceBackend(value.inferenceBackend)
+      ? value.inferenceBackend
+      : DEFAULT_SETTINGS.inferenceBackend,
   };
 }
 
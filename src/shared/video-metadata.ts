@@ -0,0 +1,23 @@
+export const VIDEO_METADATA_STORAGE_KEY = 'cvo:videoMetadata';
+
+export interface VideoMetadata {
+  videoId: string | null;
+  title: string;
+  channel: string;
+  url: string;
+  // ISO date (YYYY-MM-DD) the video was published, when the page exposes it.
+  publishedAt: string | null;
+}
+
+export function isVideoMetadata(value: unknown): value is VideoMetadata {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const metadata = value as Partial<VideoMetadata>;
+  return (
+    typeof metadata.title === 'string' &&
+    typeof metadata.channel === 'string' &&
+    typeof metadata.url === 'string'
+  );
+}
@@ -0,0 +1,280 @@
+import { isLightSquare, type SquareColorModel } from './square-colors';
+
+// A streamer-drawn mark in board coordinates: an arrow from one square to another, or a
+// circled / tinted square when `from` and `to` are the same.
+export interface BoardAnnotation {
+  from: string;
+  to: string;
+  // CSS color of the mark as drawn in the video.
+  color: string;
+}
+
+// Same, with squares as a8..h1 indices in image orientation.
+export interface DetectedAnnotation {
+  from: number;
+  to: number;
+  color: string;
+}
+
+interface Cell {
+  r: number;
+  g: number;
+  b: number;
+}
+
+interface Component {
+  cells: number[];
+  color: Cell;
+}
+
+// The board is scanned as a grid of cells, fine enough to catch thin circle outlines.
+const CELLS_PER_SQUARE = 8;
+const GRID = CELLS_PER_SQUARE * 8;
+const SAMPLES_PER_CELL = 2;
+// Annotation colors are vivid: well saturated, neither dark nor washed out.
+const MIN_SATURATION = 0.5;
+const MIN_CHROMA = 0.25;
+const MIN_VALUE = 0.35;
+// Neighboring cells further apart than this (RGB distance) belong to different marks.
+const COLOR_JOIN_DISTANCE = 60;
+const MIN_SQUARE_MARK_CELLS = 6;
+const MIN_ARROW_CELLS = 8;
+// Last-move tints are yellowish fills; a full yellow square on a highlighted square is the move,
+// not an annotation.
+const MOVE_TINT_HUE: [number, number] = [45, 90];
+const MOVE_TINT_FILL = 0.6;
+
+// Arrows and square marks drawn over the board in saturated colors. `highlighted` are the
+// last-move squares (see detectHighlightedSquares); their own tint is not reported.
+export function detectAnnotations(
+  boardImage: ImageData,
+  model: SquareColorModel | null,
+  highlighted: number[] = [],
+): DetectedAnnotation[] {
+  const cells = sampleCells(boardImage, model);
+  removeMoveTints(cells, highlighted);
+
+  const annotations: DetectedAnnotation[] = [];
+  for (const component of findComponents(cells)) {
+    const squares = new Set(component.cells.map(cellSquare));
+    const color = toHex(component.color);
+
+    if (squares.size === 1) {
+      if (component.cells.length >= MIN_SQUARE_MARK_CELLS) {
+        const [square] = squares;
+        annotations.push({ from: square, to: square, color });
+      }
+      continue;
+    }
+
+    if (component.cells.length < MIN_ARROW_CELLS) {
+      continue;
+    }
+
+    const arrow = arrowEnds(component.cells);
+    if (arrow) {
+      annotations.push({ ...arrow, color });
+    }
+  }
+
+  return annotations;
+}
+
+// Per cell, the mean annotation-colored sample, or null when most samples are something else.
+function sampleCells(boardImage: ImageData, model: SquareColorModel | null): Array<Cell | null> {
+  const cells = new Array<Cell | null>(GRID * GRID).fill(null);
+  const cellWidth = boardImage.width / GRID;
+  const cellHeight = boardImage.height / GRID;
+  const src = boardImage.data;
+
+  for (let cy = 0; cy < GRID; cy++) {
+    for (let cx = 0; cx < GRID; cx++) {
+      const square = Math.floor(cy / CELLS_PER_SQUARE) * 8 + Math.floor(cx / CELLS_PER_SQUARE);
+      const background = model ? (isLightSquare(square) ? model.light : model.dark) : null;
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let count = 0;
+
+      for (let sy = 0; sy < SAMPLES_PER_CELL; sy++) {
+        const y = Math.min(boardImage.height - 1, Math.floor((cy + (sy + 0.5) / SAMPLES_PER_CELL) * cellHeight));
+        for (let sx = 0; sx < SAMPLES_PER_CELL; sx++) {
+          const x = Math.min(boardImage.width - 1, Math.floor((cx + (sx + 0.5) / SAMPLES_PER_CELL) * cellWidth));
+          const idx = (y * boardImage.width + x) * 4;
+          const pr = src[idx];
+          const pg = src[idx + 1];
+          const pb = src[idx + 2];
+          // Saturated boards (green, blue themes) must not read as annotations themselves.
+          const nearBackground =
+            background && colorDistance(background, { r: pr, g: pg, b: pb }) < COLOR_JOIN_DISTANCE;
+          if (!isAnnotationColor(pr, pg, pb) || nearBackground) {
+            continue;
+          }
+          r += pr;
+          g += pg;
+          b += pb;
+          count++;
+        }
+      }
+
+      if (count * 2 >= SAMPLES_PER_CELL * SAMPLES_PER_CELL) {
+        cells[cy * GRID + cx] = { r: r / count, g: g / count, b: b / count };
+      }
+    }
+  }
+
+  return cells;
+}
+
+function removeMoveTints(cells: Array<Cell | null>, highlighted: number[]): void {
+  for (const square of highlighted) {
+    const squareCells = cellsOfSquare(square);
+    const colored = squareCells.filter((cell) => cells[cell] !== null);
+    if (colored.length < squareCells.length * MOVE_TINT_FILL) {
+      continue;
+    }
+
+    const tint = averageColor(colored.map((cell) => cells[cell] as Cell));
+    const tintHue = hue(tint.r, tint.g, tint.b);
+    if (tintHue < MOVE_TINT_HUE[0] || tintHue > MOVE_TINT_HUE[1]) {
+      continue;
+    }
+
+    for (const cell of colored) {
+      if (colorDistance(cells[cell] as Cell, tint) < COLOR_JOIN_DISTANCE) {
+        cells[cell] = null;
+      }
+    }
+  }
+}
+
+function findComponents(cells: Array<Cell | null>): Component[] {
+  const visited = new Uint8Array(cells.length);
+  const components: Component[] = [];
+
+  for (let start = 0; start < cells.length; start++) {
+    if (!cells[start] || visited[start]) {
+      continue;
+    }
+
+    visited[start] = 1;
+    const stack = [start];
+    const members: number[] = [];
+
+    while (stack.length > 0) {
+      const cell = stack.pop() as number;
+      const color = cells[cell] as Cell;
+      members.push(cell);
+      const x = cell % GRID;
+      const y = Math.floor(cell / GRID);
+
+      for (let ny = Math.max(0, y - 1); ny <= Math.min(GRID - 1, y + 1); ny++) {
+        for (let nx = Math.max(0, x - 1); nx <= Math.min(GRID - 1, x + 1); nx++) {
+          const next = ny * GRID + nx;
+          const neighbor = cells[next];
+          if (neighbor && !visited[next] && colorDistance(color, neighbor) < COLOR_JOIN_DISTANCE) {
+            visited[next] = 1;
+            stack.push(next);
+          }
+        }
+      }
+    }
+
+    components.push({ cells: members, color: averageColor(members.map((cell) => cells[cell] as Cell)) });
+  }
+
+  return components;
+}
+
+// The arrow's two extremes are its tail and tip; the tip is the end with the wider head.
+function arrowEnds(cells: number[]): { from: number; to: number } | null {
+  const farthestFrom = (origin: number) => {
+    let best = origin;
+    let bestDistance = -1;
+    for (const cell of cells) {
+      const distance = cellDistance(origin, cell);
+      if (distance > bestDistance) {
+        best = cell;
+        bestDistance = distance;
+      }
+    }
+    return best;
+  };
+
+  const a = farthestFrom(cells[0]);
+  const b = farthestFrom(a);
+  const headRadius = CELLS_PER_SQUARE / 2;
+  const nearA = cells.filter((cell) => cellDistance(cell, a) <= headRadius).length;
+  const nearB = cells.filter((cell) => cellDistance(cell, b) <= headRadius).length;
+  const [tail, tip] = nearA > nearB ? [b, a] : [a, b];
+
+  const from = cellSquare(tail);
+  const to = cellSquare(tip);
+  return from === to ? null : { from, to };
+}
+
+function cellsOfSquare(square: number): number[] {
+  const left = (square % 8) * CELLS_PER_SQUARE;
+  const top = Math.floor(square / 8) * CELLS_PER_SQUARE;
+  const cells: number[] = [];
+  for (let y = 0; y < CELLS_PER_SQUARE; y++) {
+    for (let x = 0; x < CELLS_PER_SQUARE; x++) {
+      cells.push((top + y) * GRID + left + x);
+    }
+  }
+  return cells;
+}
+
+function cellSquare(cell: number): number {
+  const x = cell % GRID;
+  const y = Math.floor(cell / GRID);
+  return Math.floor(y / CELLS_PER_SQUARE) * 8 + Math.floor(x / CELLS_PER_SQUARE);
+}
+
+function cellDistance(a: number, b: number): number {
+  return Math.hypot((a % GRID) - (b % GRID), Math.floor(a / GRID) - Math.floor(b / GRID));
+}
+
+function isAnnotationColor(r: number, g: number, b: number): boolean {
+  const max = Math.max(r, g, b) / 255;
+  const chroma = (Math.max(r, g, b) - Math.min(r, g, b)) / 255;
+  return max >= MIN_VALUE && chroma >= MIN_CHROMA && chroma / max >= MIN_SATURATION;
+}
+
+function hue(r: number, g: number, b: number): number {
+  const max = Math.max(r, g, b);
+  const delta = max - Math.min(r, g, b);
+  if (delta === 0) {
+    return 0;
+  }
+
+  let h: number;
+  if (max === r) {
+    h = ((g - b) / delta) % 6;
+  } else if (max === g) {
+    h = (b - r) / delta + 2;
+  } else {
+    h = (r - g) / delta + 4;
+  }
+  h *= 60;
+  return h < 0 ? h + 360 : h;
+}
+
+function averageColor(colors: Cell[]): Cell {
+  const sum = colors.reduce((acc, color) => ({ r: acc.r + color.r, g: acc.g + color.g, b: acc.b + color.b }), {
+    r: 0,
+    g: 0,
+    b: 0,
+  });
+  const count = Math.max(1, colors.length);
+  return { r: sum.r / count, g: sum.g / count, b: sum.b / count };
+}
+
+function colorDistance(a: Cell, b: Cell): number {
+  return Math.hypot(a.r - b.r, a.g - b.g, a.b - b.b);
+}
+
+function toHex(color: Cell): string {
+  const channel = (value: number) => Math.round(Math.max(0, Math.min(255, value))).toString(16).padStart(2, '0');
+  return `#${channel(color.r)}${channel(color.g)}${channel(color.b)}`;
+}
@@ -0,0 +1,156 @@
+import { env, InferenceSession, Tensor } from 'onnxruntime-web/all';
+import type { BackendBenchmark, InferenceBackend } from './inference-backends';
+
+const BENCHMARK_RUNS = 3;
+const MAX_WASM_THREADS = 4;
+
+// The WASM runtime reads its thread count once, when the first WASM session is created.
+let wasmRuntimeThreads: number | null = null;
+
+// Smallest module using a v128 instruction; validates only where WebAssembly SIMD is supported.
+const SIMD_PROBE = new Uint8Array([
+  0, 97, 115, 109, 1, 0, 0, 0, 1, 5, 1, 96, 0, 1, 123, 3, 2, 1, 0, 10, 10, 1, 8, 0, 65, 0, 253, 15, 253, 98, 11,
+]);
+
+export function executionProvidersFor(backend: InferenceBackend): InferenceSession.ExecutionProviderConfig[] {
+  switch (backend) {
+    case 'webgpu':
+      return ['webgpu'];
+    case 'webgl':
+      return ['webgl'];
+    default:
+      return ['wasm'];
+  }
+}
+
+// The WASM runtime is initialized once per worker with a fixed thread count, so only one of the
+// two WASM variants can be used per worker. Threads need a cross-origin isolated context; where
+// that is available the runtime is set up multi-threaded unless WASM SIMD is pinned.
+export function configureWasmRuntime(backend: InferenceBackend | null): void {
+  if (wasmRuntimeThreads !== null) {
+    return;
+  }
+
+  const threaded = backend === 'wasm-simd' ? false : canUseWasmThreads();
+  env.wasm.numThreads = threaded ? Math.min(MAX_WASM_THREADS, hardwareThreads()) : 1;
+}
+
+// Backends that look usable in this context, fastest-first by reputation.
+export async function detectBackends(): Promise<InferenceBackend[]> {
+  const available: InferenceBackend[] = [];
+
+  if (await hasWebGpuAdapter()) {
+    available.push('webgpu');
+  }
+  if (hasWebGl2()) {
+    available.push('webgl');
+  }
+  if (WebAssembly.validate(SIMD_PROBE)) {
+    available.push(canUseWasmThreads() ? 'wasm-threaded' : 'wasm-simd');
+  }
+
+  return available;
+}
+
+// Load the model on the backend, run a warm-up inference and time a few more. Throws nothing:
+// failures are reported in the result.
+export async function benchmarkBackend(
+  backend: InferenceBackend,
+  modelUrl: string,
+  tileSize: number,
+): Promise<BackendBenchmark> {
+  const loadStart = performance.now();
+  let session: InferenceSession | null = null;
+
+  try {
+    session = await InferenceSession.create(modelUrl, {
+      executionProviders: executionProvidersFor(backend),
+      graphOptimizationLevel: 'all',
+    });
+    const threads = isWasmBackend(backend) ? (wasmRuntimeThreads ??= env.wasm.numThreads ?? 1) : null;
+
+    const input = new Tensor('float32', new Float32Array(64 * tileSize * tileSize), [64, 1, tileSize, tileSize]);
+    const feeds = { [session.inputNames[0]]: input };
+    await session.run(feeds);
+    const loadMs = performance.now() - loadStart;
+
+    const runStart = performance.now();
+    for (let i = 0; i < BENCHMARK_RUNS; i++) {
+      await session.run(feeds);
+    }
+
+    const inferenceMs = (performance.now() - runStart) / BENCHMARK_RUNS;
+    return { backend, loadMs, inferenceMs, threads, error: null };
+  } catch (error) {
+    return {
+      backend,
+      loadMs: performance.now() - loadStart,
+      inferenceMs: null,
+      threads: null,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  } finally {
+    await releaseSession(session);
+  }
+}
+
+export async function releaseSession(session: InferenceSession | null): Promise<void> {
+  if (!session) {
+    return;
+  }
+
+  try {
+    const releasable = session as InferenceSession & { release?: () => Promise<void> };
+    if (typeof releasable.release === 'function') {
+      await releasable.release();
+    }
+  } catch (error) {
+    console.warn('[BackendBenchmark] Failed to release ONNX session', error);
+  }
+}
+
+function isWasmBackend(backend: InferenceBackend): boolean {
+  return backend === 'wasm-threaded' || backend === 'wasm-simd';
+}
+
+function canUseWasmThreads(): boolean {
+  return (
+    typeof SharedArrayBuffer !== 'undefined' &&
+    (globalThis as { crossOriginIsolated?: boolean }).crossOriginIsolated === true &&
+    hardwareThreads() > 1
+  );
+}
+
+// Node (benchmarks, tools) may have no navigator at all.
+function hardwareThreads(): number {
+  return typeof navigator === 'undefined' ? 1 : navigator.hardwareConcurrency || 1;
+}
+
+async function hasWebGpuAdapter(): Promise<boolean> {
+  if (typeof navigator === 'undefined') {
+    return false;
+  }
+
+  const gpu = (navigator as Navigator & { gpu?: { requestAdapter(): Promise<unknown | null> } }).gpu;
+  if (!gpu) {
+    return false;
+  }
+
+  try {
+    return (await gpu.requestAdapter()) !== null;
+  } catch {
+    return false;
+  }
+}
+
+function hasWebGl2(): boolean {
+  if (typeof OffscreenCanvas === 'undefined') {
+    return false;
+  }
+
+  try {
+    return new OffscreenCanvas(1, 1).getContext('webgl2') !== null;
+  } catch {
+    return false;
+  }
+}
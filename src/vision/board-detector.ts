@@ -1,12 +1,59 @@
 import type { Rect } from './frame-capture';
+import { GridRefiner, type GridFit } from './grid-refiner';
+import { applyHomography, computeHomography, warpQuadToSquare, type Homography } from './homography';
 
 export type BoardRegion = Rect;
 
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Clockwise from the top-left corner of the board as it appears in the frame.
+export type BoardCorners = [Point, Point, Point, Point];
+
+export interface BoardDetection {
+  // Axis-aligned bounds of the board (of the quadrilateral when perspective-corrected).
+  region: BoardRegion;
+  corners: BoardCorners;
+  // Maps the unit square (u right, v down; 0..1 over the whole board) onto image pixels.
+  // Only set for perspective detections; axis-aligned boards are plain crops of `region`.
+  homography: Homography | null;
+  // 0..1 lattice fit of the refined grid; 0 when only the coarse padded region is available.
+  fitScore: number;
+  refined: boolean;
+}
+
+export interface DetectOptions {
+  // Also look for a board filmed at an angle and prefer it when its lattice fits better.
+  perspective?: boolean;
+}
+
+interface CoarseDetection {
+  region: BoardRegion;
+  // Extreme points of the board's edge component, a rough quadrilateral outline.
+  quad: BoardCorners;
+}
+
+type Component = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  coverage: number;
+  quad: BoardCorners;
+};
+
 export interface BoardDetectorOptions {
   minCoverage: number;
   maxInputDimension: number;
   edgePercentile: number;
   occlusionPaddingRatio: number;
+  gridSearchMarginRatio: number;
+  minGridFitScore: number;
+  perspectiveWarpSize: number;
+  maxCandidates: number;
+  duplicateIoU: number;
 }
 
 const DEFAULT_OPTIONS: BoardDetectorOptions = {
@@ -14,21 +61,215 @@ const DEFAULT_OPTIONS: BoardDetectorOptions = {
   maxInputDimension: 360,
   edgePercentile: 0.88,
   occlusionPaddingRatio: 0.07,
+  gridSearchMarginRatio: 0.25,
+  minGridFitScore: 0.6,
+  perspectiveWarpSize: 320,
+  maxCandidates: 3,
+  duplicateIoU: 0.5,
 };
 
+const GRID_SEARCH_ATTEMPTS = 3;
+
+export function regionIoU(a: Rect, b: Rect): number {
+  const x0 = Math.max(a.x, b.x);
+  const y0 = Math.max(a.y, b.y);
+  const x1 = Math.min(a.x + a.width, b.x + b.width);
+  const y1 = Math.min(a.y + a.height, b.y + b.height);
+  const intersection = Math.max(0, x1 - x0) * Math.max(0, y1 - y0);
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+export function cornersToRect(corners: readonly Point[]): Rect {
+  const xs = corners.map((point) => point.x);
+  const ys = corners.map((point) => point.y);
+  const x = Math.floor(Math.min(...xs));
+  const y = Math.floor(Math.min(...ys));
+  return {
+    x,
+    y,
+    width: Math.ceil(Math.max(...xs)) - x,
+    height: Math.ceil(Math.max(...ys)) - y,
+  };
+}
+
+export function rectToCorners(rect: Rect): BoardCorners {
+  return [
+    { x: rect.x, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y + rect.height },
+    { x: rect.x, y: rect.y + rect.height },
+  ];
+}
+
+// A board outlined by hand. Axis-aligned outlines are cropped directly, anything else is warped.
+export function detectionFromCorners(corners: BoardCorners): BoardDetection {
+  const [topLeft, topRight, bottomRight, bottomLeft] = corners;
+  const axisAligned =
+    Math.abs(topLeft.y - topRight.y) <= 1 &&
+    Math.abs(bottomLeft.y - bottomRight.y) <= 1 &&
+    Math.abs(topLeft.x - bottomLeft.x) <= 1 &&
+    Math.abs(topRight.x - bottomRight.x) <= 1;
+
+  return {
+    region: cornersToRect(corners),
+    corners,
+    homography: axisAligned ? null : computeHomography(rectToCorners({ x: 0, y: 0, width: 1, height: 1 }), corners),
+    // Trusted as drawn; there is no lattice fit to score.
+    fitScore: 1,
+    refined: false,
+  };
+}
+
 // Heuristic board detector for MVP.
-// Uses luminance edge map + connected components and picks the largest square-ish region.
+// Uses luminance edge map + connected components and keeps the best square-ish regions,
+// then fits the 8x8 square lattice inside each to drop labels, frames and clock widgets.
+// Candidates are ranked so a frame showing several boards lists the main one first.
 export class BoardDetector {
   private readonly options: BoardDetectorOptions;
+  private readonly gridRefiner: GridRefiner;
 
-  constructor(options: Partial<BoardDetectorOptions> = {}) {
+  constructor(options: Partial<BoardDetectorOptions> = {}, gridRefiner: GridRefiner = new GridRefiner()) {
     this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.gridRefiner = gridRefiner;
   }
 
   async detect(imageData: ImageData): Promise<BoardRegion | null> {
+    const detection = await this.detectDetailed(imageData);
+    return detection?.region ?? null;
+  }
+
+  async detectDetailed(imageData: ImageData, options: DetectOptions = {}): Promise<BoardDetection | null> {
+    const candidates = await this.detectCandidates(imageData, options);
+    return candidates[0] ?? null;
+  }
+
+  // Every board found in the frame: lattice-fitted boards first, then larger before smaller.
+  async detectCandidates(imageData: ImageData, options: DetectOptions = {}): Promise<BoardDetection[]> {
+    const detections = this.detectCoarse(imageData).map((coarse) => this.refineCandidate(imageData, coarse, options));
+
+    const ranked = detections.sort(
+      (a, b) =>
+        Number(b.refined) - Number(a.refined) ||
+        b.region.width * b.region.height - a.region.width * a.region.height,
+    );
+
+    const unique: BoardDetection[] = [];
+    for (const detection of ranked) {
+      const duplicate = unique.some((kept) => regionIoU(kept.region, detection.region) > this.options.duplicateIoU);
+      if (!duplicate) {
+        unique.push(detection);
+      }
+    }
+
+    return unique;
+  }
+
+  private refineCandidate(imageData: ImageData, coarse: CoarseDetection, options: DetectOptions): BoardDetection {
+    const fit = this.refineGrid(imageData, coarse.region);
+
+    let detection: BoardDetection;
+    if (!fit || fit.fitScore < this.options.minGridFitScore) {
+      detection = {
+        region: coarse.region,
+        corners: rectToCorners(coarse.region),
+        homography: null,
+        fitScore: fit?.fitScore ?? 0,
+        refined: false,
+      };
+    } else {
+      detection = {
+        region: fit.region,
+        corners: rectToCorners(fit.region),
+        homography: null,
+        fitScore: fit.fitScore,
+        refined: true,
+      };
+    }
+
+    if (options.perspective) {
+      const angled = this.detectPerspective(imageData, coarse.quad);
+      if (angled && angled.fitScore > detection.fitScore) {
+        return angled;
+      }
+    }
+
+    return detection;
+  }
+
+  // Warp the component's rough quadrilateral to a square, fit the lattice there and map the
+  // fitted grid corners back into the frame.
+  private detectPerspective(imageData: ImageData, quad: BoardCorners): BoardDetection | null {
+    const size = this.options.perspectiveWarpSize;
+    const warped = warpQuadToSquare(imageData, quad, size);
+    const toFrame = computeHomography(rectToCorners({ x: 0, y: 0, width: size, height: size }), quad);
+    if (!warped || !toFrame) {
+      return null;
+    }
+
+    const fit = this.gridRefiner.refine(warped, { x: 0, y: 0, width: size, height: size });
+    const refined = !!fit && fit.fitScore >= this.options.minGridFitScore;
+    const corners = refined
+      ? (rectToCorners(fit.region).map((point) => applyHomography(toFrame, point.x, point.y)) as BoardCorners)
+      : quad;
+
+    const homography = computeHomography(rectToCorners({ x: 0, y: 0, width: 1, height: 1 }), corners);
+    if (!homography) {
+      return null;
+    }
+
+    return {
+      region: cornersToRect(corners),
+      corners,
+      homography,
+      fitScore: fit?.fitScore ?? 0,
+      refined,
+    };
+  }
+
+  // A lattice pressed against the edge of its search window may be cut off by it (the fit then
+  // lands whole squares away from the real board), so search again around the fit.
+  private refineGrid(imageData: ImageData, coarse: BoardRegion): GridFit | null {
+    let around = coarse;
+    let best: GridFit | null = null;
+
+    for (let attempt = 0; attempt < GRID_SEARCH_ATTEMPTS; attempt++) {
+      const margin = Math.round(Math.max(around.width, around.height) * this.options.gridSearchMarginRatio);
+      const window = {
+        x: Math.max(0, around.x - margin),
+        y: Math.max(0, around.y - margin),
+        width: around.width + margin * 2,
+        height: around.height + margin * 2,
+      };
+      const fit = this.gridRefiner.refine(imageData, window);
+      if (!fit) {
+        break;
+      }
+
+      if (!best || fit.fitScore > best.fitScore) {
+        best = fit;
+      }
+
+      const square = fit.region.width / 8;
+      const touchesEdge =
+        fit.region.x - window.x < square ||
+        fit.region.y - window.y < square ||
+        window.x + window.width - (fit.region.x + fit.region.width) < square ||
+        window.y + window.height - (fit.region.y + fit.region.height) < square;
+      if (!touchesEdge) {
+        break;
+      }
+
+      around = fit.region;
+    }
+
+    return best;
+  }
+
+  private detectCoarse(imageData: ImageData): CoarseDetection[] {
     const { width, height } = imageData;
     if (width < 32 || height < 32) {
-      return null;
+      return [];
     }
 
     const scale = Math.min(1, this.options.maxInputDimension / Math.max(width, height));
@@ -40,23 +281,26 @@ export class BoardDetector {
     const threshold = this.percentileThreshold(edges, this.options.edgePercentile);
     const mask = this.closeMask(this.binarize(edges, threshold), sw, sh);
 
-    const candidate = this.findBestSquareComponent(mask, sw, sh);
-    if (!candidate) {
-      return null;
-    }
+    const detections: CoarseDetection[] = [];
+    for (const candidate of this.findSquareComponents(mask, sw, sh)) {
+      const adjusted = this.expandForCornerOcclusion(candidate, sw, sh);
 
-    const adjusted = this.expandForCornerOcclusion(candidate, sw, sh);
+      if (adjusted.coverage < this.options.minCoverage) {
+        continue;
+      }
 
-    if (adjusted.coverage < this.options.minCoverage) {
-      return null;
+      detections.push({
+        region: {
+          x: Math.floor(adjusted.x / scale),
+          y: Math.floor(adjusted.y / scale),
+          width: Math.floor(adjusted.width / scale),
+          height: Math.floor(adjusted.height / scale),
+        },
+        quad: candidate.quad.map((point) => ({ x: point.x / scale, y: point.y / scale })) as BoardCorners,
+      });
     }
 
-    return {
-      x: Math.floor(adjusted.x / scale),
-      y: Math.floor(adjusted.y / scale),
-      width: Math.floor(adjusted.width / scale),
-      height: Math.floor(adjusted.height / scale),
-    };
+    return detections;
   }
 
   private downsampleLuminance(imageData: ImageData, sw: number, sh: number): Uint8Array {
@@ -165,14 +409,13 @@ export class BoardDetector {
     };
   }
 
-  private findBestSquareComponent(mask: Uint8Array, width: number, height: number):
-    | { x: number; y: number; width: number; height: number; coverage: number }
-    | null {
+  // Highest-scoring square-ish components, best first.
+  private findSquareComponents(mask: Uint8Array, width: number, height: number): Component[] {
     const visited = new Uint8Array(mask.length);
     const queueX = new Int32Array(mask.length);
     const queueY = new Int32Array(mask.length);
 
-    let best: { x: number; y: number; width: number; height: number; coverage: number; score: number } | null = null;
+    const found: Array<Component & { score: number }> = [];
 
     for (let startY = 0; startY < height; startY++) {
       for (let startX = 0; startX < width; startX++) {
@@ -193,6 +436,11 @@ export class BoardDetector {
         let minY = startY;
         let maxY = startY;
         let pixels = 0;
+        // Extremes of x+y and x-y give the outline's corners even when it is rotated or skewed.
+        let topLeft = { x: startX, y: startY };
+        let topRight = topLeft;
+        let bottomRight = topLeft;
+        let bottomLeft = topLeft;
 
         while (qStart < qEnd) {
           const x = queueX[qStart];
@@ -204,6 +452,10 @@ export class BoardDetector {
           if (x > maxX) maxX = x;
           if (y < minY) minY = y;
           if (y > maxY) maxY = y;
+          if (x + y < topLeft.x + topLeft.y) topLeft = { x, y };
+          if (x + y > bottomRight.x + bottomRight.y) bottomRight = { x, y };
+          if (x - y > topRight.x - topRight.y) topRight = { x, y };
+          if (x - y < bottomLeft.x - bottomLeft.y) bottomLeft = { x, y };
 
           const neighbors: Array<[number, number]> = [
             [x - 1, y],
@@ -236,33 +488,34 @@ export class BoardDetector {
         const score = area * squareness * fill;
         const coverage = area / (width * height);
 
-        if (!best || score > best.score) {
-          best = {
-            x: minX,
-            y: minY,
-            width: boxWidth,
-            height: boxHeight,
-            coverage,
-            score,
-          };
-        }
+        found.push({
+          x: minX,
+          y: minY,
+          width: boxWidth,
+          height: boxHeight,
+          coverage,
+          quad: [topLeft, topRight, bottomRight, bottomLeft],
+          score,
+        });
       }
     }
 
-    if (!best) {
-      return null;
-    }
-
-    const side = Math.round((best.width + best.height) / 2);
-    const centerX = best.x + best.width / 2;
-    const centerY = best.y + best.height / 2;
-
-    return {
-      x: Math.max(0, Math.round(centerX - side / 2)),
-      y: Math.max(0, Math.round(centerY - side / 2)),
-      width: Math.min(width, side),
-      height: Math.min(height, side),
-      coverage: best.coverage,
-    };
+    return found
+      .sort((a, b) => b.score - a.score)
+      .slice(0, this.options.maxCandidates)
+      .map((best) => {
+        const side = Math.round((best.width + best.height) / 2);
+        const centerX = best.x + best.width / 2;
+        const centerY = best.y + best.height / 2;
+
+        return {
+          x: Math.max(0, Math.round(centerX - side / 2)),
+          y: Math.max(0, Math.round(centerY - side / 2)),
+          width: Math.min(width, side),
+          height: Math.min(height, side),
+          coverage: best.coverage,
+          quad: best.quad,
+        };
+      });
   }
 }
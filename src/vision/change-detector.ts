@@ -1,27 +1,144 @@
-// Compare FEN states to detect moves and new games
+import { boardPart, withFenState } from './fen-utils';
+import {
+  advanceGameState,
+  confirmTurnFromHighlights,
+  initialGameState,
+  resyncGameState,
+  type TrackedGameState,
+} from './game-state';
+import { inferMove, type DetectedMove } from './move-inference';
+
+export type ChangeType = 'no-change' | 'move' | 'seek' | 'new-game';
+
+export interface ChangeDetection {
+  type: ChangeType;
+  fen: string;
+  move: DetectedMove | null;
+}
+
+interface HistoryEntry {
+  fen: string;
+  state: TrackedGameState;
+}
+
+// Compare FEN states to detect moves and new games.
+// Tracks side to move, castling, en passant and move counters so emitted FENs are complete.
+// Positions of the current game are kept so seeking in the video jumps within the game.
+// Last-move highlights read off the board, when present, are trusted over the guessed game
+// state: they pick the move played and settle whose turn it is.
 export class ChangeDetector {
   private lastFen: string | null = null;
+  // The board as read for the current position; differs from lastFen's when a highlighted move
+  // overruled misread squares, so the same misread on later frames is not taken for a change.
+  private lastReadBoard: string | null = null;
+  private state: TrackedGameState | null = null;
+  private history: HistoryEntry[] = [];
+  private seekPending = false;
 
-  detect(currentFen: string): { type: 'no-change' | 'move' | 'new-game'; fen: string } {
-    if (!this.lastFen) {
-      this.lastFen = currentFen;
-      return { type: 'new-game', fen: currentFen };
+  // `highlightedSquares` are the board's tinted last-move squares, e.g. ['e2', 'e4'].
+  detect(currentFen: string, highlightedSquares: string[] = []): ChangeDetection {
+    if (!this.lastFen || !this.state) {
+      return this.startGame(currentFen, highlightedSquares);
     }
 
-    if (currentFen === this.lastFen) {
-      return { type: 'no-change', fen: currentFen };
+    const readBoard = boardPart(currentFen);
+    if (readBoard === boardPart(this.lastFen) || readBoard === this.lastReadBoard) {
+      // A joined game's side to move can still be settled once highlights show up.
+      if (!this.state.turnConfirmed) {
+        this.updateState(confirmTurnFromHighlights(this.state, this.lastFen, highlightedSquares));
+      }
+      return { type: 'no-change', fen: this.lastFen, move: null };
+    }
+
+    // A seek stays pending until a different board shows up; the frames right after it may still
+    // show the old position.
+    const seeked = this.seekPending;
+    this.seekPending = false;
+
+    // After a video seek the position is most likely one seen earlier; check that before
+    // treating it as a move, since stepping back can look like a legal move.
+    if (seeked) {
+      const revisited = this.jumpToRecorded(currentFen);
+      if (revisited) {
+        return revisited;
+      }
     }
 
     // Count how many squares differ
-    const diff = this.countDifferences(this.lastFen, currentFen);
-    this.lastFen = currentFen;
+    const previousFen = this.lastFen;
+    const diff = this.countDifferences(previousFen, currentFen);
+
+    // A single move touches 2 squares, 3 for en passant and 4 for castling; a highlighted move
+    // may also explain a couple of misread squares on top.
+    const plausibleMove = highlightedSquares.length > 0 ? diff <= 6 : diff >= 2 && diff <= 4;
+    const inferred = plausibleMove ? inferMove(previousFen, currentFen, highlightedSquares) : null;
+    if (!inferred && diff > 4) {
+      const revisited = this.jumpToRecorded(currentFen);
+      if (revisited) {
+        return revisited;
+      }
+    }
 
     // >10 squares changed = likely new game
     if (diff > 10) {
-      return { type: 'new-game', fen: currentFen };
+      return this.startGame(currentFen, highlightedSquares);
+    }
+
+    this.state = inferred
+      ? advanceGameState(this.state, inferred.move)
+      : confirmTurnFromHighlights(resyncGameState(this.state, currentFen), currentFen, highlightedSquares);
+    // The legal move's result is kept over the read board, which may have a few misread squares.
+    this.lastFen = withFenState(inferred?.fenAfter ?? currentFen, this.state);
+    this.lastReadBoard = readBoard;
+    this.history.push({ fen: this.lastFen, state: this.state });
+
+    return { type: 'move', fen: this.lastFen, move: inferred?.move ?? null };
+  }
+
+  // The video is seeking; the next changed position is matched against the game so far first.
+  notifySeek(): void {
+    this.seekPending = true;
+  }
+
+  getGameState(): TrackedGameState | null {
+    return this.state;
+  }
+
+  private startGame(fen: string, highlightedSquares: string[]): ChangeDetection {
+    const state = initialGameState(fen);
+    this.state = state.turnConfirmed ? state : confirmTurnFromHighlights(state, fen, highlightedSquares);
+    this.lastFen = withFenState(fen, this.state);
+    this.lastReadBoard = boardPart(fen);
+    this.history = [{ fen: this.lastFen, state: this.state }];
+    return { type: 'new-game', fen: this.lastFen, move: null };
+  }
+
+  // Replace the current position's game state in place (no new position was reached).
+  private updateState(state: TrackedGameState): void {
+    if (state === this.state || !this.lastFen) {
+      return;
+    }
+
+    const entry = this.history.map((recorded) => recorded.fen).lastIndexOf(this.lastFen);
+    this.state = state;
+    this.lastFen = withFenState(this.lastFen, state);
+    if (entry >= 0) {
+      this.history[entry] = { fen: this.lastFen, state };
     }
+  }
 
-    return { type: 'move', fen: currentFen };
+  private jumpToRecorded(fen: string): ChangeDetection | null {
+    const board = boardPart(fen);
+    for (let i = this.history.length - 1; i >= 0; i--) {
+      const entry = this.history[i];
+      if (boardPart(entry.fen) === board) {
+        this.state = entry.state;
+        this.lastFen = entry.fen;
+        this.lastReadBoard = board;
+        return { type: 'seek', fen: entry.fen, move: null };
+      }
+    }
+    return null;
   }
 
   private countDifferences(fen1: string, fen2: string): number {
@@ -39,5 +156,9 @@ export class ChangeDetector {
 
   reset() {
     this.lastFen = null;
+    this.lastReadBoard = null;
+    this.state = null;
+    this.history = [];
+    this.seekPending = false;
   }
 }
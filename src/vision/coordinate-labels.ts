@@ -0,0 +1,328 @@
+import type { BoardPerspective } from './fen-utils';
+import type { Rect } from './frame-capture';
+
+type LabelKind = 'file' | 'rank';
+
+interface LabelPatch {
+  rect: Rect;
+  kind: LabelKind;
+  // Label index along the edge (left to right for files, top to bottom for ranks).
+  index: number;
+}
+
+interface Glyph {
+  // GLYPH_HEIGHT rows of GLYPH_WIDTH cells, ink scaled to the full height and centered.
+  cells: Float32Array;
+}
+
+const GLYPH_WIDTH = 5;
+const GLYPH_HEIGHT = 7;
+
+// Cropped 5x7 bitmaps of the coordinate characters as most board GUIs draw them.
+const GLYPH_BITMAPS: Record<string, string[]> = {
+  a: ['.###.', '....#', '.####', '#...#', '#...#', '#..##', '.##.#'],
+  b: ['#....', '#....', '####.', '#...#', '#...#', '#...#', '####.'],
+  c: ['.###.', '#...#', '#....', '#....', '#....', '#...#', '.###.'],
+  d: ['....#', '....#', '.####', '#...#', '#...#', '#...#', '.####'],
+  e: ['.###.', '#...#', '#...#', '#####', '#....', '#...#', '.###.'],
+  f: ['..##.', '.#...', '.#...', '####.', '.#...', '.#...', '.#...'],
+  g: ['.####', '#...#', '#...#', '.####', '....#', '#...#', '.###.'],
+  h: ['#....', '#....', '####.', '#...#', '#...#', '#...#', '#...#'],
+  '1': ['..#..', '.##..', '..#..', '..#..', '..#..', '..#..', '.###.'],
+  '2': ['.###.', '#...#', '....#', '...#.', '..#..', '.#...', '#####'],
+  '3': ['.###.', '#...#', '....#', '..##.', '....#', '#...#', '.###.'],
+  '4': ['...#.', '..##.', '.#.#.', '#..#.', '#####', '...#.', '...#.'],
+  '5': ['#####', '#....', '####.', '....#', '....#', '#...#', '.###.'],
+  '6': ['.###.', '#....', '#....', '####.', '#...#', '#...#', '.###.'],
+  '7': ['#####', '....#', '...#.', '..#..', '..#..', '.#...', '.#...'],
+  '8': ['.###.', '#...#', '#...#', '.###.', '#...#', '#...#', '.###.'],
+};
+
+const FILES = 'abcdefgh';
+const RANKS = '87654321';
+
+// Corner patches inside edge squares, and strips beside the board, as fractions of a square.
+const INSIDE_PATCH = 0.4;
+const OUTSIDE_PATCH = 0.6;
+// Ink and paper must differ by this much luminance for a patch to hold a glyph.
+const MIN_GLYPH_CONTRAST = 40;
+const MIN_INK_FRACTION = 0.02;
+const MAX_INK_FRACTION = 0.45;
+const MIN_GLYPH_PIXELS = 6;
+// Readable glyphs needed, and the average per-glyph margin between the two orientations.
+const MIN_GLYPHS = 3;
+const MIN_MARGIN = 0.04;
+
+const GLYPHS = new Map(Object.entries(GLYPH_BITMAPS).map(([char, rows]) => [char, bitmapToGlyph(rows)]));
+
+// Orientation from the a-h / 1-8 coordinates drawn in the edge squares or beside the board.
+// `board` is the board's square area within `image`; labels outside it are read when the image
+// extends far enough. Returns null when too few glyphs can be read to tell.
+export function detectLabelPerspective(image: ImageData, board: Rect): BoardPerspective | null {
+  let margin = 0;
+  let glyphs = 0;
+
+  for (const patch of labelPatches(image, board)) {
+    const glyph = readGlyph(image, patch.rect);
+    if (!glyph) {
+      continue;
+    }
+
+    const labels = patch.kind === 'file' ? FILES : RANKS;
+    const whiteBottom = glyphSimilarity(glyph, labels[patch.index]);
+    const blackBottom = glyphSimilarity(glyph, labels[7 - patch.index]);
+    margin += whiteBottom - blackBottom;
+    glyphs++;
+  }
+
+  if (glyphs < MIN_GLYPHS || Math.abs(margin) / glyphs < MIN_MARGIN) {
+    return null;
+  }
+
+  return margin > 0 ? 'white-bottom' : 'black-bottom';
+}
+
+function labelPatches(image: ImageData, board: Rect): LabelPatch[] {
+  const square = board.width / 8;
+  const squareHeight = board.height / 8;
+  const inside = square * INSIDE_PATCH;
+  const insideHeight = squareHeight * INSIDE_PATCH;
+  const bottom = board.y + board.height;
+  const right = board.x + board.width;
+  const patches: LabelPatch[] = [];
+
+  for (let i = 0; i < 8; i++) {
+    const left = board.x + i * square;
+    const top = board.y + i * squareHeight;
+
+    // Files sit in the lower corners of the bottom row; ranks in the corners of the edge files.
+    patches.push(
+      { kind: 'file', index: i, rect: { x: left, y: bottom - insideHeight, width: inside, height: insideHeight } },
+      {
+        kind: 'file',
+        index: i,
+        rect: { x: left + square - inside, y: bottom - insideHeight, width: inside, height: insideHeight },
+      },
+      { kind: 'rank', index: i, rect: { x: board.x, y: top, width: inside, height: insideHeight } },
+      { kind: 'rank', index: i, rect: { x: right - inside, y: top, width: inside, height: insideHeight } },
+    );
+
+    // Strips beside the board are clipped to the image; readGlyph rejects ones left too small.
+    const below = Math.min(squareHeight * OUTSIDE_PATCH, image.height - bottom);
+    const beside = Math.min(square * OUTSIDE_PATCH, board.x);
+    patches.push(
+      { kind: 'file', index: i, rect: { x: left, y: bottom, width: square, height: below } },
+      { kind: 'rank', index: i, rect: { x: board.x - beside, y: top, width: beside, height: squareHeight } },
+    );
+  }
+
+  return patches;
+}
+
+// Splits the patch into ink and paper (Otsu), keeps the largest ink blob and scales it onto the
+// glyph grid. Null when the patch holds no plausible character.
+function readGlyph(image: ImageData, rect: Rect): Glyph | null {
+  const x0 = Math.max(0, Math.floor(rect.x));
+  const y0 = Math.max(0, Math.floor(rect.y));
+  const x1 = Math.min(image.width, Math.ceil(rect.x + rect.width));
+  const y1 = Math.min(image.height, Math.ceil(rect.y + rect.height));
+  const w = x1 - x0;
+  const h = y1 - y0;
+  if (w < GLYPH_WIDTH || h < GLYPH_HEIGHT) {
+    return null;
+  }
+
+  const luma = new Float32Array(w * h);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const idx = ((y0 + y) * image.width + x0 + x) * 4;
+      luma[y * w + x] = 0.299 * image.data[idx] + 0.587 * image.data[idx + 1] + 0.114 * image.data[idx + 2];
+    }
+  }
+
+  const split = otsuSplit(luma);
+  if (!split || split.upperMean - split.lowerMean < MIN_GLYPH_CONTRAST) {
+    return null;
+  }
+
+  // Ink is whichever class covers less of the patch.
+  const darkInk = split.lowerCount <= split.upperCount;
+  const ink = new Uint8Array(w * h);
+  let inkCount = 0;
+  for (let i = 0; i < luma.length; i++) {
+    const isInk = darkInk ? luma[i] <= split.threshold : luma[i] > split.threshold;
+    ink[i] = isInk ? 1 : 0;
+    inkCount += ink[i];
+  }
+
+  const fraction = inkCount / (w * h);
+  if (fraction < MIN_INK_FRACTION || fraction > MAX_INK_FRACTION) {
+    return null;
+  }
+
+  const blob = largestComponent(ink, w, h);
+  if (!blob || blob.pixels < MIN_GLYPH_PIXELS) {
+    return null;
+  }
+
+  return scaleToGlyph(blob.mask, w, blob.box);
+}
+
+function otsuSplit(
+  luma: Float32Array,
+): { threshold: number; lowerMean: number; upperMean: number; lowerCount: number; upperCount: number } | null {
+  const histogram = new Float64Array(256);
+  for (const value of luma) {
+    histogram[Math.max(0, Math.min(255, Math.round(value)))]++;
+  }
+
+  const total = luma.length;
+  let sumAll = 0;
+  for (let i = 0; i < 256; i++) sumAll += i * histogram[i];
+
+  let lowerCount = 0;
+  let lowerSum = 0;
+  let bestVariance = -1;
+  let best: { threshold: number; lowerMean: number; upperMean: number; lowerCount: number; upperCount: number } | null =
+    null;
+
+  for (let t = 0; t < 255; t++) {
+    lowerCount += histogram[t];
+    lowerSum += t * histogram[t];
+    const upperCount = total - lowerCount;
+    if (lowerCount === 0 || upperCount === 0) {
+      continue;
+    }
+
+    const lowerMean = lowerSum / lowerCount;
+    const upperMean = (sumAll - lowerSum) / upperCount;
+    const variance = lowerCount * upperCount * (lowerMean - upperMean) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = { threshold: t, lowerMean, upperMean, lowerCount, upperCount };
+    }
+  }
+
+  return best;
+}
+
+function largestComponent(
+  ink: Uint8Array,
+  w: number,
+  h: number,
+): { mask: Uint8Array; pixels: number; box: Rect } | null {
+  const labels = new Int32Array(w * h);
+  const stack: number[] = [];
+  let bestLabel = 0;
+  let bestPixels = 0;
+  let bestBox: Rect | null = null;
+  let label = 0;
+
+  for (let start = 0; start < ink.length; start++) {
+    if (ink[start] === 0 || labels[start] !== 0) {
+      continue;
+    }
+
+    label++;
+    labels[start] = label;
+    stack.push(start);
+    let pixels = 0;
+    let minX = w;
+    let maxX = 0;
+    let minY = h;
+    let maxY = 0;
+
+    while (stack.length > 0) {
+      const idx = stack.pop() as number;
+      const x = idx % w;
+      const y = Math.floor(idx / w);
+      pixels++;
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+
+      // 8-connected: thin strokes of small glyphs often only touch diagonally.
+      for (let ny = Math.max(0, y - 1); ny <= Math.min(h - 1, y + 1); ny++) {
+        for (let nx = Math.max(0, x - 1); nx <= Math.min(w - 1, x + 1); nx++) {
+          const next = ny * w + nx;
+          if (ink[next] === 1 && labels[next] === 0) {
+            labels[next] = label;
+            stack.push(next);
+          }
+        }
+      }
+    }
+
+    // Blobs running along two or more patch edges are square borders or pieces, not characters.
+    const edges = Number(minX === 0) + Number(maxX === w - 1) + Number(minY === 0) + Number(maxY === h - 1);
+    if (edges < 2 && pixels > bestPixels) {
+      bestLabel = label;
+      bestPixels = pixels;
+      bestBox = { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+    }
+  }
+
+  if (!bestBox) {
+    return null;
+  }
+
+  const mask = new Uint8Array(w * h);
+  for (let i = 0; i < labels.length; i++) {
+    mask[i] = labels[i] === bestLabel ? 1 : 0;
+  }
+  return { mask, pixels: bestPixels, box: bestBox };
+}
+
+// Scale the blob to GLYPH_HEIGHT rows, keeping its aspect ratio, centered across GLYPH_WIDTH.
+function scaleToGlyph(mask: Uint8Array, w: number, box: Rect): Glyph {
+  const cells = new Float32Array(GLYPH_WIDTH * GLYPH_HEIGHT);
+  const cellSize = box.height / GLYPH_HEIGHT;
+  const glyphWidth = box.width / cellSize;
+  const offset = (GLYPH_WIDTH - glyphWidth) / 2;
+
+  for (let row = 0; row < GLYPH_HEIGHT; row++) {
+    for (let col = 0; col < GLYPH_WIDTH; col++) {
+      const left = box.x + (col - offset) * cellSize;
+      const top = box.y + row * cellSize;
+      let inked = 0;
+      let samples = 0;
+      for (let sy = 0; sy < 3; sy++) {
+        for (let sx = 0; sx < 3; sx++) {
+          const x = Math.floor(left + ((sx + 0.5) / 3) * cellSize);
+          const y = Math.floor(top + ((sy + 0.5) / 3) * cellSize);
+          samples++;
+          if (x >= box.x && x < box.x + box.width && y >= box.y && y < box.y + box.height) {
+            inked += mask[y * w + x];
+          }
+        }
+      }
+      cells[row * GLYPH_WIDTH + col] = inked / samples;
+    }
+  }
+
+  return { cells };
+}
+
+function bitmapToGlyph(rows: string[]): Glyph {
+  const cells = new Float32Array(GLYPH_WIDTH * GLYPH_HEIGHT);
+  rows.forEach((row, y) => {
+    for (let x = 0; x < GLYPH_WIDTH; x++) {
+      cells[y * GLYPH_WIDTH + x] = row[x] === '#' ? 1 : 0;
+    }
+  });
+  return { cells };
+}
+
+function glyphSimilarity(glyph: Glyph, char: string): number {
+  const template = GLYPHS.get(char);
+  if (!template) {
+    return 0;
+  }
+
+  let difference = 0;
+  for (let i = 0; i < template.cells.length; i++) {
+    difference += Math.abs(glyph.cells[i] - template.cells[i]);
+  }
+  return 1 - difference / template.cells.length;
+}
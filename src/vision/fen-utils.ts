@@ -1,6 +1,68 @@
 export type BoardPerspective = 'white-bottom' | 'black-bottom';
+export type SideToMove = 'w' | 'b';
+
+export interface FenState {
+  turn: SideToMove;
+  castling: string;
+  enPassant: string;
+  halfmoveClock: number;
+  fullmoveNumber: number;
+}
+
+export const START_BOARD_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR';
+
+// Square indices 0 (a8) to 63 (h1).
+export const ALL_SQUARES: readonly number[] = Array.from({ length: 64 }, (_, square) => square);
+
+export const DEFAULT_FEN_STATE: FenState = {
+  turn: 'w',
+  castling: '-',
+  enPassant: '-',
+  halfmoveClock: 0,
+  fullmoveNumber: 1,
+};
+
+const FILES = 'abcdefgh';
+
+export function squareIndex(square: string): number {
+  return (8 - Number(square[1])) * 8 + FILES.indexOf(square[0]);
+}
+
+// Inverse of squareIndex: 0 is a8, 63 is h1.
+export function squareName(index: number): string {
+  return `${FILES[index % 8]}${8 - Math.floor(index / 8)}`;
+}
+
+export function boardPart(fen: string): string {
+  return fen.trim().split(/\s+/)[0] ?? '';
+}
+
+export function formatFenState(state: FenState): string {
+  return `${state.turn} ${state.castling || '-'} ${state.enPassant || '-'} ${state.halfmoveClock} ${state.fullmoveNumber}`;
+}
+
+export function withFenState(fen: string, state: FenState): string {
+  return `${boardPart(fen)} ${formatFenState(state)}`;
+}
+
+// Castling rights that are still possible given where kings and rooks stand.
+export function castlingFromPieces(pieces: string[]): string {
+  const at = (square: string) => pieces[squareIndex(square)];
+  let rights = '';
+
+  if (at('e1') === 'K') {
+    if (at('h1') === 'R') rights += 'K';
+    if (at('a1') === 'R') rights += 'Q';
+  }
+  if (at('e8') === 'k') {
+    if (at('h8') === 'r') rights += 'k';
+    if (at('a8') === 'r') rights += 'q';
+  }
+
+  return rights || '-';
+}
 
-export function piecesToFen(pieces: string[]): string {
+export function piecesToFen(pieces: string[], state: FenState = DEFAULT_FEN_STATE): string {
   const ranks: string[] = [];
 
   for (let rank = 0; rank < 8; rank++) {
@@ -27,7 +89,7 @@ export function piecesToFen(pieces: string[]): string {
     ranks.push(fenRank);
   }
 
-  return `${ranks.join('/')} w - - 0 1`;
+  return `${ranks.join('/')} ${formatFenState(state)}`;
 }
 
 export function fenToPieces(fen: string): string[] {
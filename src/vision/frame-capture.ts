@@ -5,6 +5,16 @@ export interface Rect {
   height: number;
 }
 
+// A captured frame, ready to be transferred to the vision worker.
+export interface CapturedFrame {
+  // The `source` part of the video, scaled down to the capture size.
+  image: ImageBitmap;
+  // In video pixels.
+  source: Rect;
+  videoWidth: number;
+  videoHeight: number;
+}
+
 type AnyCanvas = OffscreenCanvas | HTMLCanvasElement;
 type AnyCtx = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
 
@@ -28,73 +38,299 @@ function createCanvas(width: number, height: number): { canvas: AnyCanvas; ctx:
   return { canvas, ctx };
 }
 
+// Unchanged frames are spotted on a small thumbnail of the board region (or the whole frame).
+const PROBE_SIZE = 32;
+// A thumbnail pixel counts as changed past this luminance difference (0..255)...
+const PROBE_PIXEL_THRESHOLD = 12;
+// ...and the frame once this fraction of them has. One moved piece covers about 1.5%.
+const PROBE_CHANGED_FRACTION = 0.003;
+// Even an unchanged frame is captured after this many skips in a row.
+const MAX_CONSECUTIVE_SKIPS = 10;
+// Whole frames only serve board detection, which works on a small image anyway.
+const FULL_FRAME_MAX_SIZE = 960;
+// Once the board is known only it is captured, with room around it for coordinate labels.
+const BOARD_CROP_MARGIN = 0.15;
+const BOARD_CROP_MAX_SIZE = 768;
+
 // Capture frames from YouTube video element.
+// While the video plays, frames are taken as the browser presents them (requestVideoFrameCallback)
+// at most once per capture interval; a paused or ended video is scanned once and then left alone.
+// Browsers without requestVideoFrameCallback fall back to an interval that runs only during playback.
+// Frames are read with createImageBitmap, scaled down and cropped to the board once it is known,
+// so the page never reads back or copies full-resolution pixels.
 export class FrameCapture {
-  private canvas: AnyCanvas;
-  private ctx: AnyCtx;
+  private probeCanvas: { canvas: AnyCanvas; ctx: AnyCtx } | null = null;
   private intervalId: number | null = null;
+  private frameCallbackId: number | null = null;
+  private lastCaptureAt = 0;
+  private capturing = false;
   private activeVideo: HTMLVideoElement | null = null;
-  private onFrame: ((imageData: ImageData) => void) | null = null;
+  private onFrame: ((frame: CapturedFrame, videoTime: number) => void) | null = null;
+  private canSkipUnchanged: (() => boolean) | null = null;
+  private boardRegion: Rect | null = null;
+  private fullFrameRequested = false;
+  private lastProbe: Float32Array | null = null;
+  private consecutiveSkips = 0;
+  private skippedFrames = 0;
 
-  constructor(private captureIntervalMs: number = 500) {
-    const { canvas, ctx } = createCanvas(640, 480);
-    this.canvas = canvas;
-    this.ctx = ctx;
-  }
+  private readonly onVideoFrame = (now: DOMHighResTimeStamp, metadata: VideoFrameCallbackMetadata): void => {
+    this.frameCallbackId = null;
+    if (!this.activeVideo) {
+      return;
+    }
 
-  capture(videoElement: HTMLVideoElement): ImageData | null {
-    if (videoElement.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) {
-      return null;
+    if (now - this.lastCaptureAt >= this.captureIntervalMs) {
+      this.lastCaptureAt = now;
+      this.captureFrame(metadata.mediaTime, false);
     }
+    this.requestVideoFrame();
+  };
+
+  private readonly onVideoPlay = (): void => {
+    this.requestVideoFrame();
+    this.startInterval();
+  };
+
+  // The frame a pause or the end settles on is read once; nothing is captured after that.
+  private readonly onVideoStopped = (): void => {
+    this.stopInterval();
+    this.captureNow(true);
+  };
 
-    const width = videoElement.videoWidth;
-    const height = videoElement.videoHeight;
-    if (width === 0 || height === 0) {
+  constructor(private captureIntervalMs: number = 500) {}
+
+  // The board region plus a margin when a board is known and no whole frame was requested, else
+  // the whole frame; scaled down to the matching size limit. Null when the video has no frame.
+  async capture(videoElement: HTMLVideoElement): Promise<CapturedFrame | null> {
+    const videoWidth = videoElement.videoWidth;
+    const videoHeight = videoElement.videoHeight;
+    if (videoElement.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || videoWidth === 0 || videoHeight === 0) {
       return null;
     }
 
-    if (this.canvas.width !== width || this.canvas.height !== height) {
-      this.canvas.width = width;
-      this.canvas.height = height;
+    const cropped = this.boardRegion !== null && !this.fullFrameRequested;
+    const source = cropped
+      ? expandRect(this.boardRegion as Rect, BOARD_CROP_MARGIN, videoWidth, videoHeight)
+      : { x: 0, y: 0, width: videoWidth, height: videoHeight };
+    if (!cropped) {
+      this.fullFrameRequested = false;
     }
 
-    this.ctx.drawImage(videoElement, 0, 0, width, height);
-    return this.ctx.getImageData(0, 0, width, height);
+    const maxSize = cropped ? BOARD_CROP_MAX_SIZE : FULL_FRAME_MAX_SIZE;
+    const scale = Math.min(1, maxSize / Math.max(source.width, source.height));
+    const image = await createImageBitmap(videoElement, source.x, source.y, source.width, source.height, {
+      resizeWidth: Math.max(1, Math.round(source.width * scale)),
+      resizeHeight: Math.max(1, Math.round(source.height * scale)),
+      resizeQuality: 'medium',
+    });
+
+    return { image, source, videoWidth, videoHeight };
   }
 
-  start(videoElement: HTMLVideoElement, onFrame: (imageData: ImageData) => void): void {
+  // onFrame receives the captured frame and the media time (seconds) it shows. It owns the bitmap.
+  start(videoElement: HTMLVideoElement, onFrame: (frame: CapturedFrame, videoTime: number) => void): void {
     this.stop();
     this.activeVideo = videoElement;
     this.onFrame = onFrame;
+    this.lastCaptureAt = 0;
 
-    this.intervalId = window.setInterval(() => {
-      const frame = this.capture(videoElement);
-      if (frame) {
-        onFrame(frame);
-      }
-    }, this.captureIntervalMs);
+    videoElement.addEventListener('play', this.onVideoPlay);
+    videoElement.addEventListener('pause', this.onVideoStopped);
+    videoElement.addEventListener('ended', this.onVideoStopped);
+
+    if (videoElement.paused || videoElement.ended) {
+      this.captureNow(true);
+    } else {
+      this.onVideoPlay();
+    }
+  }
+
+  // Capture immediately instead of waiting for the next frame. `force` bypasses the
+  // unchanged-frame check.
+  captureNow(force = false): void {
+    if (this.activeVideo) {
+      this.captureFrame(this.activeVideo.currentTime, force);
+    }
+  }
+
+  // Frames that look like the last captured one are dropped before the full-size readback while
+  // `canSkip` returns true; null captures every frame.
+  setSkipUnchanged(canSkip: (() => boolean) | null): void {
+    this.canSkipUnchanged = canSkip;
+  }
+
+  // The tracked board in video pixels: frames are cropped to it and unchanged frames are spotted
+  // on it. Null captures and watches the whole frame.
+  setBoardRegion(region: Rect | null): void {
+    const same =
+      region === this.boardRegion ||
+      (region !== null &&
+        this.boardRegion !== null &&
+        region.x === this.boardRegion.x &&
+        region.y === this.boardRegion.y &&
+        region.width === this.boardRegion.width &&
+        region.height === this.boardRegion.height);
+    if (!same) {
+      this.boardRegion = region;
+      this.lastProbe = null;
+    }
+  }
+
+  // Capture the whole frame next time, e.g. to look for the board again.
+  requestFullFrame(): void {
+    this.fullFrameRequested = true;
+  }
+
+  getSkippedFrames(): number {
+    return this.skippedFrames;
+  }
+
+  resetSkippedFrames(): void {
+    this.skippedFrames = 0;
   }
 
   stop(): void {
-    if (this.intervalId !== null) {
-      clearInterval(this.intervalId);
-      this.intervalId = null;
+    this.stopInterval();
+    if (this.activeVideo) {
+      if (this.frameCallbackId !== null) {
+        this.activeVideo.cancelVideoFrameCallback(this.frameCallbackId);
+      }
+      this.activeVideo.removeEventListener('play', this.onVideoPlay);
+      this.activeVideo.removeEventListener('pause', this.onVideoStopped);
+      this.activeVideo.removeEventListener('ended', this.onVideoStopped);
     }
+    this.frameCallbackId = null;
     this.activeVideo = null;
     this.onFrame = null;
   }
 
   setCaptureInterval(intervalMs: number): void {
     this.captureIntervalMs = intervalMs;
-    if (this.activeVideo && this.onFrame) {
-      this.start(this.activeVideo, this.onFrame);
+    if (this.intervalId !== null) {
+      this.stopInterval();
+      this.startInterval();
     }
   }
 
   dispose(): void {
     this.stop();
-    this.canvas.width = 1;
-    this.canvas.height = 1;
+    this.probeCanvas = null;
+  }
+
+  private captureFrame(videoTime: number, force: boolean): void {
+    const video = this.activeVideo;
+    // One capture in flight at a time; a slow one simply absorbs the next tick.
+    if (!video || !this.onFrame || this.capturing) {
+      return;
+    }
+
+    if (this.shouldSkip(video, force)) {
+      this.skippedFrames += 1;
+      return;
+    }
+
+    this.capturing = true;
+    this.capture(video)
+      .then((frame) => {
+        if (!frame) {
+          return;
+        }
+        if (this.activeVideo === video && this.onFrame) {
+          this.onFrame(frame, videoTime);
+        } else {
+          frame.image.close();
+        }
+      })
+      .catch((error: unknown) => {
+        console.warn('[FrameCapture] Failed to capture frame', error);
+      })
+      .finally(() => {
+        this.capturing = false;
+      });
+  }
+
+  // One pending callback at a time; it only fires when a new frame is presented, so a paused or
+  // buffering video costs nothing.
+  private requestVideoFrame(): void {
+    const video = this.activeVideo;
+    if (!video || this.frameCallbackId !== null || !('requestVideoFrameCallback' in video)) {
+      return;
+    }
+
+    this.frameCallbackId = video.requestVideoFrameCallback(this.onVideoFrame);
+  }
+
+  private startInterval(): void {
+    if (!this.activeVideo || 'requestVideoFrameCallback' in this.activeVideo || this.intervalId !== null) {
+      return;
+    }
+
+    this.intervalId = window.setInterval(() => {
+      // Without frame callbacks a stalled video is only noticed by its ready state.
+      if (this.activeVideo && this.activeVideo.readyState >= HTMLMediaElement.HAVE_FUTURE_DATA) {
+        this.captureNow();
+      }
+    }, this.captureIntervalMs);
+  }
+
+  private stopInterval(): void {
+    if (this.intervalId !== null) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  private shouldSkip(videoElement: HTMLVideoElement, force: boolean): boolean {
+    const probe = this.probe(videoElement);
+    const previous = this.lastProbe;
+    this.lastProbe = probe;
+
+    if (force || !probe || !previous || !this.canSkipUnchanged?.()) {
+      this.consecutiveSkips = 0;
+      return false;
+    }
+
+    let changed = 0;
+    for (let i = 0; i < probe.length; i++) {
+      if (Math.abs(probe[i] - previous[i]) > PROBE_PIXEL_THRESHOLD) {
+        changed++;
+      }
+    }
+
+    if (changed > probe.length * PROBE_CHANGED_FRACTION || this.consecutiveSkips >= MAX_CONSECUTIVE_SKIPS) {
+      this.consecutiveSkips = 0;
+      return false;
+    }
+
+    // Compare against the last captured frame, so slow drifts still add up to a capture.
+    this.lastProbe = previous;
+    this.consecutiveSkips += 1;
+    return true;
+  }
+
+  // Luminance thumbnail of the probe region; null when the video has no frame yet.
+  private probe(videoElement: HTMLVideoElement): Float32Array | null {
+    if (videoElement.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || videoElement.videoWidth === 0) {
+      return null;
+    }
+
+    this.probeCanvas ??= createCanvas(PROBE_SIZE, PROBE_SIZE);
+    const { ctx } = this.probeCanvas;
+    const region = this.boardRegion ?? {
+      x: 0,
+      y: 0,
+      width: videoElement.videoWidth,
+      height: videoElement.videoHeight,
+    };
+
+    ctx.drawImage(videoElement, region.x, region.y, region.width, region.height, 0, 0, PROBE_SIZE, PROBE_SIZE);
+    const data = ctx.getImageData(0, 0, PROBE_SIZE, PROBE_SIZE).data;
+    const luminance = new Float32Array(PROBE_SIZE * PROBE_SIZE);
+    for (let i = 0; i < luminance.length; i++) {
+      luminance[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    }
+
+    return luminance;
   }
 
   static crop(imageData: ImageData, rect: Rect): ImageData {
@@ -118,3 +354,12 @@ export class FrameCapture {
     return output;
   }
 }
+
+// `rect` grown by `margin` of its size on every side, kept inside the video.
+function expandRect(rect: Rect, margin: number, width: number, height: number): Rect {
+  const x = Math.max(0, Math.floor(rect.x - rect.width * margin));
+  const y = Math.max(0, Math.floor(rect.y - rect.height * margin));
+  const right = Math.min(width, Math.ceil(rect.x + rect.width * (1 + margin)));
+  const bottom = Math.min(height, Math.ceil(rect.y + rect.height * (1 + margin)));
+  return { x, y, width: Math.max(1, right - x), height: Math.max(1, bottom - y) };
+}
@@ -0,0 +1,122 @@
+import {
+  boardPart,
+  castlingFromPieces,
+  fenToPieces,
+  squareIndex,
+  START_BOARD_FEN,
+  type FenState,
+  type SideToMove,
+} from './fen-utils';
+import type { DetectedMove } from './move-inference';
+
+const ROOK_CORNER_RIGHTS: Record<string, string> = {
+  h1: 'K',
+  a1: 'Q',
+  h8: 'k',
+  a8: 'q',
+};
+
+export interface TrackedGameState extends FenState {
+  // False while the side to move is only a guess (game joined mid-way, or a move was missed).
+  turnConfirmed: boolean;
+}
+
+// Game state for the first position seen. The standard start position is exact; anything else
+// is a mid-game join, so castling comes from piece placement and White is assumed to move until
+// the first inferred move says otherwise.
+export function initialGameState(fen: string): TrackedGameState {
+  if (boardPart(fen) === START_BOARD_FEN) {
+    return {
+      turn: 'w',
+      castling: 'KQkq',
+      enPassant: '-',
+      halfmoveClock: 0,
+      fullmoveNumber: 1,
+      turnConfirmed: true,
+    };
+  }
+
+  return {
+    turn: 'w',
+    castling: castlingFromPieces(fenToPieces(fen)),
+    enPassant: '-',
+    halfmoveClock: 0,
+    fullmoveNumber: 1,
+    turnConfirmed: false,
+  };
+}
+
+export function advanceGameState(state: TrackedGameState, move: DetectedMove): TrackedGameState {
+  let fullmoveNumber = state.fullmoveNumber;
+  if (move.color !== state.turn && state.turnConfirmed) {
+    // The other side's move went unseen; count it so move numbers stay aligned.
+    fullmoveNumber += state.turn === 'b' ? 1 : 0;
+  }
+
+  const isPawnMove = move.piece === 'p';
+  const isDoublePush = isPawnMove && Math.abs(Number(move.from[1]) - Number(move.to[1])) === 2;
+
+  return {
+    turn: move.color === 'w' ? 'b' : 'w',
+    castling: revokeCastling(state.castling, move),
+    enPassant: isDoublePush ? `${move.from[0]}${(Number(move.from[1]) + Number(move.to[1])) / 2}` : '-',
+    halfmoveClock: isPawnMove || move.captured ? 0 : state.halfmoveClock + 1,
+    fullmoveNumber: move.color === 'b' ? fullmoveNumber + 1 : fullmoveNumber,
+    turnConfirmed: true,
+  };
+}
+
+// The board changed but no single legal move explains it (missed frames or misreads).
+// Keep counters, drop rights the new placement rules out and stop trusting the side to move.
+export function resyncGameState(state: TrackedGameState, fen: string): TrackedGameState {
+  const possible = castlingFromPieces(fenToPieces(fen));
+  const castling = [...state.castling].filter((right) => possible.includes(right)).join('');
+
+  return {
+    ...state,
+    castling: castling || '-',
+    enPassant: '-',
+    turnConfirmed: false,
+  };
+}
+
+// The board shows last-move highlights: whoever owns the pieces now standing on them just moved,
+// so the other side is to move. Left unchanged when the highlighted squares do not say.
+export function confirmTurnFromHighlights(
+  state: TrackedGameState,
+  fen: string,
+  highlightedSquares: string[],
+): TrackedGameState {
+  const pieces = fenToPieces(fen);
+  const movers = new Set<SideToMove>();
+  for (const square of highlightedSquares) {
+    const piece = pieces[squareIndex(square)];
+    if (piece && piece !== '1') {
+      movers.add(piece === piece.toUpperCase() ? 'w' : 'b');
+    }
+  }
+
+  if (movers.size !== 1) {
+    return state;
+  }
+
+  const [mover] = movers;
+  return { ...state, turn: mover === 'w' ? 'b' : 'w', turnConfirmed: true };
+}
+
+function revokeCastling(castling: string, move: DetectedMove): string {
+  let rights = castling === '-' ? '' : castling;
+
+  if (move.piece === 'k') {
+    rights = rights.replace(move.color === 'w' ? /[KQ]/g : /[kq]/g, '');
+  }
+
+  for (const square of [move.from, move.to]) {
+    const right = ROOK_CORNER_RIGHTS[square];
+    if (right) {
+      rights = rights.replace(right, '');
+    }
+  }
+
+  return rights || '-';
+}
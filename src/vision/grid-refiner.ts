@@ -0,0 +1,329 @@
+import type { Rect } from './frame-capture';
+
+export interface GridRefinerOptions {
+  maxWorkingDimension: number;
+  minBoardFraction: number;
+  candidatesPerAxis: number;
+  maxAspectError: number;
+}
+
+export interface GridFit {
+  // Exact 8x8 lattice in source image coordinates.
+  region: Rect;
+  // 0..1, blend of lattice-line strength and checkerboard alternation.
+  fitScore: number;
+  lineScore: number;
+  checkerScore: number;
+}
+
+interface AxisCandidate {
+  offset: number;
+  period: number;
+  score: number;
+}
+
+// Luminance step between neighbouring cells that counts as a full checkerboard vote.
+const STEP_SATURATION = 12;
+// A grid line must reach this fraction of the strongest edge on its axis to count as present.
+const STRONG_LINE_RATIO = 0.25;
+// Share of the outer-ring continuation taken off the checker score. Only part of it, so a lattice
+// shifted by whole squares still counts as a board fit and the detector searches on around it.
+const CONTINUATION_PENALTY = 0.5;
+
+const DEFAULT_OPTIONS: GridRefinerOptions = {
+  maxWorkingDimension: 400,
+  minBoardFraction: 0.45,
+  candidatesPerAxis: 6,
+  maxAspectError: 0.08,
+};
+
+// Finds the square lattice inside a coarse board region.
+// Gradient projection profiles give the nine grid lines per axis (period + offset search);
+// candidate lattices are then ranked by how consistently their 64 cells alternate light/dark.
+export class GridRefiner {
+  private readonly options: GridRefinerOptions;
+
+  constructor(options: Partial<GridRefinerOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  refine(imageData: ImageData, searchRegion: Rect): GridFit | null {
+    const rect = this.clampRect(searchRegion, imageData.width, imageData.height);
+    if (rect.width < 32 || rect.height < 32) {
+      return null;
+    }
+
+    const scale = Math.min(1, this.options.maxWorkingDimension / Math.max(rect.width, rect.height));
+    const w = Math.max(16, Math.round(rect.width * scale));
+    const h = Math.max(16, Math.round(rect.height * scale));
+    const luma = this.sampleLuminance(imageData, rect, w, h);
+
+    const { columns, rows } = this.projectionProfiles(luma, w, h);
+    const xCandidates = this.axisCandidates(columns, Math.min(w, h));
+    const yCandidates = this.axisCandidates(rows, Math.min(w, h));
+
+    let best: (GridFit & { ox: number; oy: number; side: number }) | null = null;
+
+    for (const cx of xCandidates) {
+      for (const cy of yCandidates) {
+        const aspectError = Math.abs(cx.period - cy.period) / Math.max(cx.period, cy.period);
+        if (aspectError > this.options.maxAspectError) {
+          continue;
+        }
+
+        const period = (cx.period + cy.period) / 2;
+        const checkerScore = this.checkerScore(luma, w, h, cx.offset, cy.offset, period);
+        const lineScore = Math.sqrt(cx.score * cy.score);
+        const fitScore = 0.5 * lineScore + 0.5 * checkerScore;
+
+        if (!best || fitScore > best.fitScore) {
+          best = {
+            region: rect,
+            fitScore,
+            lineScore,
+            checkerScore,
+            ox: cx.offset,
+            oy: cy.offset,
+            side: period * 8,
+          };
+        }
+      }
+    }
+
+    if (!best) {
+      return null;
+    }
+
+    return {
+      region: {
+        x: Math.round(rect.x + best.ox / scale),
+        y: Math.round(rect.y + best.oy / scale),
+        width: Math.round(best.side / scale),
+        height: Math.round(best.side / scale),
+      },
+      fitScore: best.fitScore,
+      lineScore: best.lineScore,
+      checkerScore: best.checkerScore,
+    };
+  }
+
+  private clampRect(rect: Rect, width: number, height: number): Rect {
+    const x = Math.max(0, Math.floor(rect.x));
+    const y = Math.max(0, Math.floor(rect.y));
+    return {
+      x,
+      y,
+      width: Math.max(0, Math.min(width - x, Math.floor(rect.width))),
+      height: Math.max(0, Math.min(height - y, Math.floor(rect.height))),
+    };
+  }
+
+  private sampleLuminance(imageData: ImageData, rect: Rect, w: number, h: number): Float32Array {
+    const out = new Float32Array(w * h);
+    const src = imageData.data;
+    const xRatio = rect.width / w;
+    const yRatio = rect.height / h;
+
+    for (let y = 0; y < h; y++) {
+      const sy = Math.min(imageData.height - 1, rect.y + Math.floor((y + 0.5) * yRatio));
+      for (let x = 0; x < w; x++) {
+        const sx = Math.min(imageData.width - 1, rect.x + Math.floor((x + 0.5) * xRatio));
+        const idx = (sy * imageData.width + sx) * 4;
+        out[y * w + x] = 0.2126 * src[idx] + 0.7152 * src[idx + 1] + 0.0722 * src[idx + 2];
+      }
+    }
+
+    return out;
+  }
+
+  // profile[i] holds the mean gradient across the boundary between pixels i and i + 1,
+  // i.e. at coordinate i + 1.
+  private projectionProfiles(luma: Float32Array, w: number, h: number): { columns: Float32Array; rows: Float32Array } {
+    const columns = new Float32Array(w);
+    const rows = new Float32Array(h);
+
+    for (let y = 0; y < h; y++) {
+      for (let x = 0; x < w; x++) {
+        const idx = y * w + x;
+        if (x + 1 < w) {
+          columns[x] += Math.abs(luma[idx + 1] - luma[idx]);
+        }
+        if (y + 1 < h) {
+          rows[y] += Math.abs(luma[idx + w] - luma[idx]);
+        }
+      }
+    }
+
+    for (let x = 0; x < w; x++) columns[x] /= h;
+    for (let y = 0; y < h; y++) rows[y] /= w;
+
+    return { columns, rows };
+  }
+
+  // Best (offset, period) pairs for nine equally spaced lines along one axis.
+  private axisCandidates(profile: Float32Array, limit: number): AxisCandidate[] {
+    const length = profile.length;
+    const minPeriod = Math.max(2, (limit * this.options.minBoardFraction) / 8);
+    const maxPeriod = limit / 8;
+    const found: AxisCandidate[] = [];
+
+    let peak = 0;
+    for (const value of profile) {
+      peak = Math.max(peak, value);
+    }
+    if (peak <= 0) {
+      return [];
+    }
+    const strongLine = peak * STRONG_LINE_RATIO;
+
+    for (let period = minPeriod; period <= maxPeriod; period += 0.25) {
+      const span = period * 8;
+      for (let offset = 0; offset + span <= length; offset += 0.5) {
+        let lines = 0;
+        let strongLines = 0;
+        for (let k = 0; k <= 8; k++) {
+          const value = this.sampleProfile(profile, offset + k * period - 1);
+          lines += value;
+          if (value >= strongLine) {
+            strongLines++;
+          }
+        }
+        let midpoints = 0;
+        for (let k = 0; k < 8; k++) {
+          midpoints += this.sampleProfile(profile, offset + (k + 0.5) * period - 1);
+        }
+
+        const lineMean = lines / 9;
+        const midMean = midpoints / 8;
+        if (lineMean <= 0) {
+          continue;
+        }
+
+        // All nine lines should be clear edges while the square centres between them stay flat.
+        const contrast = Math.max(0, (lineMean - midMean) / (lineMean + midMean));
+        const score = contrast * (strongLines / 9);
+        found.push({ offset, period, score });
+      }
+    }
+
+    found.sort((a, b) => b.score - a.score);
+
+    // Keep distinct lattices; neighbouring offsets of the same fit add nothing.
+    const picked: AxisCandidate[] = [];
+    for (const candidate of found) {
+      const duplicate = picked.some(
+        (other) =>
+          Math.abs(other.offset - candidate.offset) < other.period * 0.25 &&
+          Math.abs(other.period - candidate.period) < other.period * 0.05,
+      );
+      if (!duplicate) {
+        picked.push(candidate);
+      }
+      if (picked.length >= this.options.candidatesPerAxis) {
+        break;
+      }
+    }
+
+    return picked;
+  }
+
+  private sampleProfile(profile: Float32Array, position: number): number {
+    if (position < 0 || position > profile.length - 1) {
+      return 0;
+    }
+    const low = Math.floor(position);
+    const high = Math.min(profile.length - 1, low + 1);
+    const t = position - low;
+    return profile[low] * (1 - t) + profile[high] * t;
+  }
+
+  // Agreement of neighbouring cells with the light/dark alternation, 0..1. Each adjacent pair
+  // votes with the sign of its brightness step, so pieces only add noise and flat off-board
+  // cells contribute nothing. A lattice shifted by whole squares still alternates inside, but
+  // on one side the ring of cells just outside it carries the alternation on (that side is
+  // still board), so the strongest such continuation counts against the score.
+  private checkerScore(luma: Float32Array, w: number, h: number, ox: number, oy: number, period: number): number {
+    const inset = period * 0.2;
+    const fullArea = (period - 2 * inset) ** 2;
+
+    // Mean luminance of a lattice cell, or null when less than half of it is inside the image.
+    const cellMean = (row: number, col: number): number | null => {
+      const x0 = Math.max(0, Math.floor(ox + col * period + inset));
+      const x1 = Math.min(w, Math.ceil(ox + (col + 1) * period - inset));
+      const y0 = Math.max(0, Math.floor(oy + row * period + inset));
+      const y1 = Math.min(h, Math.ceil(oy + (row + 1) * period - inset));
+
+      let sum = 0;
+      let count = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          sum += luma[y * w + x];
+          count++;
+        }
+      }
+      return count > 0 && count >= fullArea / 2 ? sum / count : null;
+    };
+
+    // +1 for cells with the parity of a8 (row and col may be -1 or 8 for the outer ring).
+    const expected = (row: number, col: number) => ((row + col + 2) % 2 === 0 ? 1 : -1);
+    const stepVote = (a: number, b: number, sign: number) =>
+      Math.sign(a - b) * sign * Math.min(1, Math.abs(a - b) / STEP_SATURATION);
+
+    const means = new Float32Array(64);
+    for (let row = 0; row < 8; row++) {
+      for (let col = 0; col < 8; col++) {
+        means[row * 8 + col] = cellMean(row, col) ?? 0;
+      }
+    }
+
+    let votes = 0;
+    let pairs = 0;
+    for (let row = 0; row < 8; row++) {
+      for (let col = 0; col < 8; col++) {
+        const index = row * 8 + col;
+        if (col < 7) {
+          votes += stepVote(means[index], means[index + 1], expected(row, col));
+          pairs++;
+        }
+        if (row < 7) {
+          votes += stepVote(means[index], means[index + 8], expected(row, col));
+          pairs++;
+        }
+      }
+    }
+
+    const alternation = Math.abs(votes) / pairs;
+    if (alternation === 0) {
+      return 0;
+    }
+
+    // Rings above, below, left and right of the lattice, as (row, col) for i = 0..7.
+    const rings: Array<(i: number) => [number, number]> = [
+      (i) => [-1, i],
+      (i) => [8, i],
+      (i) => [i, -1],
+      (i) => [i, 8],
+    ];
+    const parity = Math.sign(votes);
+    let continuation = 0;
+
+    for (const ring of rings) {
+      const ringMeans = Array.from({ length: 8 }, (_, i) => cellMean(...ring(i)));
+      let ringVotes = 0;
+      let ringPairs = 0;
+      for (let i = 0; i < 7; i++) {
+        const a = ringMeans[i];
+        const b = ringMeans[i + 1];
+        if (a !== null && b !== null) {
+          ringVotes += stepVote(a, b, parity * expected(...ring(i)));
+          ringPairs++;
+        }
+      }
+      if (ringPairs >= 4) {
+        continuation = Math.max(continuation, ringVotes / ringPairs);
+      }
+    }
+
+    return Math.max(0, alternation - CONTINUATION_PENALTY * continuation);
+  }
+}
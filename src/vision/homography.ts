@@ -0,0 +1,109 @@
+import type { Point } from './board-detector';
+
+// Row-major 3x3 projective transform.
+export type Homography = [number, number, number, number, number, number, number, number, number];
+
+// Homography taking each src point onto the dst point at the same index.
+export function computeHomography(src: readonly Point[], dst: readonly Point[]): Homography | null {
+  if (src.length !== 4 || dst.length !== 4) {
+    return null;
+  }
+
+  const a: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = src[i];
+    const { x: u, y: v } = dst[i];
+    a.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    a.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  }
+
+  const solution = solveLinearSystem(a);
+  if (!solution) {
+    return null;
+  }
+
+  return [...solution, 1] as Homography;
+}
+
+export function applyHomography(h: Homography, x: number, y: number): Point {
+  const w = h[6] * x + h[7] * y + h[8];
+  return {
+    x: (h[0] * x + h[1] * y + h[2]) / w,
+    y: (h[3] * x + h[4] * y + h[5]) / w,
+  };
+}
+
+// Resample the quadrilateral `corners` (clockwise from top-left) into a size x size image.
+export function warpQuadToSquare(imageData: ImageData, corners: readonly Point[], size: number): ImageData | null {
+  const unit: Point[] = [
+    { x: 0, y: 0 },
+    { x: size, y: 0 },
+    { x: size, y: size },
+    { x: 0, y: size },
+  ];
+  const h = computeHomography(unit, corners);
+  if (!h) {
+    return null;
+  }
+
+  const output = new ImageData(size, size);
+  const dst = output.data;
+  const src = imageData.data;
+  const maxX = imageData.width - 1;
+  const maxY = imageData.height - 1;
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const p = applyHomography(h, x + 0.5, y + 0.5);
+      const sx = Math.max(0, Math.min(maxX, p.x - 0.5));
+      const sy = Math.max(0, Math.min(maxY, p.y - 0.5));
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const x1 = Math.min(maxX, x0 + 1);
+      const y1 = Math.min(maxY, y0 + 1);
+      const tx = sx - x0;
+      const ty = sy - y0;
+
+      const out = (y * size + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        const top = src[(y0 * imageData.width + x0) * 4 + c] * (1 - tx) + src[(y0 * imageData.width + x1) * 4 + c] * tx;
+        const bottom =
+          src[(y1 * imageData.width + x0) * 4 + c] * (1 - tx) + src[(y1 * imageData.width + x1) * 4 + c] * tx;
+        dst[out + c] = top * (1 - ty) + bottom * ty;
+      }
+    }
+  }
+
+  return output;
+}
+
+// Gaussian elimination with partial pivoting on an augmented n x (n + 1) matrix.
+function solveLinearSystem(matrix: number[][]): number[] | null {
+  const n = matrix.length;
+  const m = matrix.map((row) => row.slice());
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) {
+        pivot = row;
+      }
+    }
+    if (Math.abs(m[pivot][col]) < 1e-10) {
+      return null;
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    for (let row = 0; row < n; row++) {
+      if (row === col) {
+        continue;
+      }
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) {
+        m[row][k] -= factor * m[col][k];
+      }
+    }
+  }
+
+  return m.map((row, i) => row[n] / row[i]);
+}
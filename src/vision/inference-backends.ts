@@ -0,0 +1,29 @@
+export type InferenceBackend = 'webgpu' | 'webgl' | 'wasm-threaded' | 'wasm-simd';
+
+// Settings value meaning "benchmark the backends and use the fastest".
+export const AUTO_INFERENCE_BACKEND = 'auto';
+
+export const INFERENCE_BACKENDS: readonly InferenceBackend[] = ['webgpu', 'webgl', 'wasm-threaded', 'wasm-simd'];
+
+export const INFERENCE_BACKEND_LABELS: Record<InferenceBackend, string> = {
+  webgpu: 'WebGPU',
+  webgl: 'WebGL',
+  'wasm-threaded': 'WASM (multi-threaded)',
+  'wasm-simd': 'WASM SIMD',
+};
+
+export interface BackendBenchmark {
+  backend: InferenceBackend;
+  // Session creation plus the warm-up inference.
+  loadMs: number;
+  // Mean of the timed inferences after warm-up; null when the backend failed.
+  inferenceMs: number | null;
+  // Threads the WASM runtime actually runs with, which can be fewer than the variant suggests;
+  // null for the GPU backends.
+  threads: number | null;
+  error: string | null;
+}
+
+export function isInferenceBackend(value: unknown): value is InferenceBackend {
+  return typeof value === 'string' && (INFERENCE_BACKENDS as readonly string[]).includes(value);
+}
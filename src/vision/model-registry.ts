@@ -0,0 +1,30 @@
+export interface ClassifierModelInfo {
+  id: string;
+  // Shown in the settings panel.
+  label: string;
+  // Piece sets / board styles the model was trained on.
+  description: string;
+  // Relative to the extension root.
+  path: string;
+  // Square tiles are resized to tileSize x tileSize grayscale before inference.
+  tileSize: number;
+}
+
+// Settings value meaning "pick the model that reads the current board best".
+export const AUTO_CLASSIFIER_MODEL = 'auto';
+
+// Every classifier the extension ships; each is offered for pinning in the settings panel. Add a
+// model here only together with its file in models/.
+export const CLASSIFIER_MODELS: readonly ClassifierModelInfo[] = [
+  {
+    id: 'general',
+    label: 'General',
+    description: 'Mixed digital piece sets; the default when nothing more specific fits.',
+    path: 'models/piece-classifier.onnx',
+    tileSize: 32,
+  },
+];
+
+export function findClassifierModel(id: string): ClassifierModelInfo | null {
+  return CLASSIFIER_MODELS.find((model) => model.id === id) ?? null;
+}
@@ -0,0 +1,140 @@
+import { Chess, type Color, type Move } from 'chess.js';
+import { boardPart, castlingFromPieces, fenToPieces } from './fen-utils';
+
+export interface DetectedMove {
+  san: string;
+  uci: string;
+  from: string;
+  to: string;
+  color: Color;
+  piece: string;
+  captured: string | null;
+  promotion: string | null;
+  isCastle: boolean;
+  isEnPassant: boolean;
+}
+
+export interface InferredMove {
+  move: DetectedMove;
+  fenAfter: string;
+}
+
+const FILES = 'abcdefgh';
+// A move whose from and to squares are highlighted is accepted even when this many squares of
+// the resulting board were misread.
+const MAX_MISREAD_SQUARES = 2;
+
+// En passant targets the side to move could capture, assuming the opponent just double-pushed.
+function plausibleEnPassant(pieces: string[], turn: Color): string[] {
+  const pawnRank = turn === 'w' ? 3 : 4;
+  const passedRank = turn === 'w' ? 2 : 5;
+  const originRank = turn === 'w' ? 1 : 6;
+  const opponentPawn = turn === 'w' ? 'p' : 'P';
+  const ownPawn = turn === 'w' ? 'P' : 'p';
+  const targets: string[] = [];
+
+  for (let file = 0; file < 8; file++) {
+    if (pieces[pawnRank * 8 + file] !== opponentPawn) continue;
+    if (pieces[passedRank * 8 + file] !== '1' || pieces[originRank * 8 + file] !== '1') continue;
+
+    const hasAttacker =
+      (file > 0 && pieces[pawnRank * 8 + file - 1] === ownPawn) ||
+      (file < 7 && pieces[pawnRank * 8 + file + 1] === ownPawn);
+    if (hasAttacker) {
+      targets.push(`${FILES[file]}${8 - passedRank}`);
+    }
+  }
+
+  return targets;
+}
+
+function candidateFens(previousFen: string): string[] {
+  const board = boardPart(previousFen);
+  const pieces = fenToPieces(previousFen);
+  const castling = castlingFromPieces(pieces);
+  const candidates = [previousFen.trim()];
+
+  for (const turn of ['w', 'b'] as const) {
+    for (const ep of ['-', ...plausibleEnPassant(pieces, turn)]) {
+      candidates.push(`${board} ${turn} ${castling} ${ep} 0 1`);
+    }
+  }
+
+  return [...new Set(candidates)];
+}
+
+function toDetectedMove(move: Move): DetectedMove {
+  return {
+    san: move.san,
+    uci: `${move.from}${move.to}${move.promotion ?? ''}`,
+    from: move.from,
+    to: move.to,
+    color: move.color,
+    piece: move.piece,
+    captured: move.captured ?? null,
+    promotion: move.promotion ?? null,
+    isCastle: move.isKingsideCastle() || move.isQueensideCastle(),
+    isEnPassant: move.isEnPassant(),
+  };
+}
+
+// Find the legal move that turns the previous position into the current one.
+// The previous FEN's own game state is tried first; since it may be a guess, both sides
+// to move and any plausible castling / en passant rights are tried after it.
+// Highlighted last-move squares, when given, pick between candidates and let a highlighted move
+// explain a board with a few misread squares.
+export function inferMove(
+  previousFen: string,
+  currentFen: string,
+  highlightedSquares: string[] = [],
+): InferredMove | null {
+  const target = boardPart(currentFen);
+  if (target === boardPart(previousFen)) {
+    return null;
+  }
+
+  const targetPieces = fenToPieces(currentFen);
+  let exact: Move | null = null;
+  let nearest: Move | null = null;
+  let nearestMisreads = MAX_MISREAD_SQUARES + 1;
+
+  for (const fen of candidateFens(previousFen)) {
+    let moves: Move[];
+    try {
+      moves = new Chess(fen, { skipValidation: true }).moves({ verbose: true });
+    } catch {
+      continue;
+    }
+
+    for (const move of moves) {
+      const highlighted = isHighlighted(move, highlightedSquares);
+      if (boardPart(move.after) === target) {
+        if (highlighted || highlightedSquares.length === 0) {
+          return { move: toDetectedMove(move), fenAfter: move.after };
+        }
+        exact ??= move;
+      } else if (highlighted) {
+        const misreads = countMisreads(fenToPieces(move.after), targetPieces);
+        if (misreads < nearestMisreads) {
+          nearest = move;
+          nearestMisreads = misreads;
+        }
+      }
+    }
+  }
+
+  const best = exact ?? nearest;
+  return best ? { move: toDetectedMove(best), fenAfter: best.after } : null;
+}
+
+function isHighlighted(move: Move, highlightedSquares: string[]): boolean {
+  return highlightedSquares.includes(move.from) && highlightedSquares.includes(move.to);
+}
+
+function countMisreads(expected: string[], observed: string[]): number {
+  let misreads = 0;
+  for (let i = 0; i < 64; i++) {
+    if (expected[i] !== observed[i]) misreads++;
+  }
+  return misreads;
+}
@@ -1,45 +1,119 @@
-import { InferenceSession, Tensor } from 'onnxruntime-web';
+import { InferenceSession, Tensor } from 'onnxruntime-web/all';
+import { detectAnnotations, type BoardAnnotation } from './annotations';
 import {
+  benchmarkBackend,
+  configureWasmRuntime,
+  detectBackends,
+  executionProvidersFor,
+  releaseSession,
+} from './backend-benchmark';
+import {
+  ALL_SQUARES,
   detectBoardPerspective,
   piecesToFen,
   rotatePieces180,
+  squareName,
   type BoardPerspective,
 } from './fen-utils';
+import type { BackendBenchmark, InferenceBackend } from './inference-backends';
+import { CLASSIFIER_MODELS, findClassifierModel, type ClassifierModelInfo } from './model-registry';
+import { identifyPieces } from './piece-shapes';
+import type { PieceTemplates } from './piece-templates';
+import { detectHighlightedSquares, learnSquareColors, sameSquareColors, type SquareColorModel } from './square-colors';
 
 const PIECE_LABELS = ['1', 'P', 'N', 'B', 'R', 'Q', 'K', 'p', 'n', 'b', 'r', 'q', 'k'] as const;
 const BACK_RANK_WHITE = ['R', 'N', 'B', 'Q', 'K', 'B', 'N', 'R'] as const;
 const BACK_RANK_BLACK = ['r', 'n', 'b', 'q', 'k', 'b', 'n', 'r'] as const;
 
 export interface PieceClassifierOptions {
-  modelPath: string;
+  // Candidate models; see model-registry.ts.
+  models: readonly ClassifierModelInfo[];
+  // Tile size for the heuristic fallback's occupancy pass.
   tileSize: number;
   forceMock: boolean;
 }
 
 export interface ClassificationOptions {
   forceFlip?: boolean;
+  // Orientation already known (e.g. read from coordinate labels); skips the piece-distribution guess.
+  perspective?: BoardPerspective;
+  // Squares (a8..h1 as shown) that changed since the previous call; the rest keep their previous
+  // reads. Omit to read every square.
+  changedSquares?: readonly number[];
 }
 
 export interface PieceClassificationResult {
   fen: string;
+  // White at the bottom; confidences are in the same order.
   pieces: string[];
   confidences: Float32Array;
   perspective: BoardPerspective;
   wasFlipped: boolean;
   averageConfidence: number;
+  // Tinted squares, usually the last move's from and to, in board coordinates (e.g. 'e2').
+  highlightedSquares: string[];
+  // Arrows and marked squares drawn over the board, in board coordinates.
+  annotations: BoardAnnotation[];
+  // Registry id of the model that read the pieces; null for the heuristic fallback.
+  modelId: string | null;
+  // How many squares were actually read; the others reused the previous call's reads.
+  reclassifiedSquares: number;
+}
+
+export interface BackendReport {
+  // Null until a model has loaded (or when none can).
+  backend: InferenceBackend | null;
+  benchmarks: BackendBenchmark[];
+}
+
+// Per-square labels in image orientation; only the squares that were read are meaningful.
+interface SquareReads {
+  pieces: string[];
+  confidences: Float32Array;
+  modelId: string | null;
+}
+
+interface ModelInference {
+  model: ClassifierModelInfo;
+  pieces: string[];
+  confidences: Float32Array;
+  // Over the squares that were read.
+  averageConfidence: number;
 }
 
 const DEFAULT_OPTIONS: PieceClassifierOptions = {
-  modelPath: 'models/piece-classifier.onnx',
+  models: CLASSIFIER_MODELS,
   tileSize: 32,
   forceMock: false,
 };
 
+// Auto-selection keeps the best candidate once it reads a board at least this confidently,
+// or after this many boards when none does.
+const AUTO_SELECT_MIN_CONFIDENCE = 0.75;
+const AUTO_SELECT_MAX_TRIALS = 5;
+// Only boards the best candidate reads at least this confidently, with one king per side, count
+// as trials; blank boards and transitions say little about which model fits.
+const AUTO_SELECT_TRIAL_MIN_CONFIDENCE = 0.5;
+
 // ONNX-backed classifier with deterministic fallback.
+// Unless a model is pinned, every candidate model reads the first confident boards and the one
+// with the highest average confidence is kept from then on.
 export class PieceClassifier {
   private readonly options: PieceClassifierOptions;
-  private session: InferenceSession | null = null;
-  private modelLoadPromise: Promise<void> | null = null;
+  private readonly sessions = new Map<string, Promise<InferenceSession | null>>();
+  private pinnedModelId: string | null = null;
+  private selectedModel: ClassifierModelInfo | null = null;
+  private autoTrials = 0;
+  private backendPreference: InferenceBackend | null = null;
+  private backendChoice: Promise<InferenceBackend | null> | null = null;
+  private backendReport: BackendReport = { backend: null, benchmarks: [] };
+  // Models whose input batch is fixed at 64 tiles; partial reads are padded up to a full board.
+  private readonly fullBatchModels = new Set<string>();
+  // Models that failed to load on the current backend.
+  private readonly unavailableModels = new Set<string>();
+  private lastReads: SquareReads | null = null;
+  private squareColors: SquareColorModel | null = null;
+  private templates: PieceTemplates | null = null;
 
   constructor(options: Partial<PieceClassifierOptions> = {}) {
     this.options = { ...DEFAULT_OPTIONS, ...options };
@@ -51,86 +125,318 @@ export class PieceClassifier {
   }
 
   async classifyDetailed(boardImage: ImageData, options: ClassificationOptions = {}): Promise<PieceClassificationResult> {
-    await this.ensureModelLoaded();
-
-    const { tensorData, occupancy } = this.preprocessBoard(boardImage, this.options.tileSize);
-
-    let pieces: string[];
-    let confidences: Float32Array;
+    // Candidate models are compared on whole boards, so nothing is reused while one is being picked.
+    const previous = options.changedSquares && !this.isSelectingModel() ? this.lastReads : null;
+    let squares = previous ? (options.changedSquares as readonly number[]) : ALL_SQUARES;
+    let reads = squares.length > 0 ? await this.readSquares(boardImage, squares) : null;
+
+    // Another reader took over (a model finished loading, or auto-selection moved on); its labels
+    // must not be mixed with the previous reader's.
+    if (previous && reads && reads.modelId !== previous.modelId) {
+      squares = ALL_SQUARES;
+      reads = await this.readSquares(boardImage, squares);
+    }
 
-    if (this.session) {
-      const logits = await this.runInference(tensorData);
-      if (logits) {
-        const inference = this.logitsToPieces(logits);
-        pieces = inference.pieces;
-        confidences = inference.confidences;
-      } else {
-        const fallback = this.heuristicPiecesFromOccupancy(occupancy);
-        pieces = fallback.pieces;
-        confidences = fallback.confidences;
+    const reused = previous && squares !== ALL_SQUARES ? previous : null;
+    const pieces = reused ? reused.pieces.slice() : new Array<string>(64).fill('1');
+    const confidences = reused ? reused.confidences.slice() : new Float32Array(64);
+    if (reads) {
+      for (const square of squares) {
+        pieces[square] = reads.pieces[square];
+        confidences[square] = reads.confidences[square];
       }
-    } else {
-      const fallback = this.heuristicPiecesFromOccupancy(occupancy);
-      pieces = fallback.pieces;
-      confidences = fallback.confidences;
     }
+    const modelId = reads?.modelId ?? previous?.modelId ?? null;
+    this.lastReads = { pieces: pieces.slice(), confidences: confidences.slice(), modelId };
 
-    const perspective = detectBoardPerspective(pieces);
+    const perspective = options.perspective ?? detectBoardPerspective(pieces);
     const shouldFlip = Boolean(options.forceFlip) || perspective === 'black-bottom';
     const normalizedPieces = shouldFlip ? rotatePieces180(pieces) : pieces.slice();
+    // Rotating the a8..h1 order by 180 degrees reverses it; confidences stay paired with pieces.
+    const normalizedConfidences = shouldFlip ? confidences.slice().reverse() : confidences;
 
     let confidenceSum = 0;
     for (const value of confidences) {
       confidenceSum += value;
     }
 
+    const squareColors = this.squareColors ?? learnSquareColors(boardImage);
+    const tinted = squareColors ? detectHighlightedSquares(boardImage, squareColors) : [];
+    const annotations = detectAnnotations(boardImage, squareColors, tinted);
+    // A circled square also reads as tinted; it is an annotation, not part of the last move.
+    const highlighted = tinted.filter(
+      (square) => !annotations.some((annotation) => annotation.from === square && annotation.to === square),
+    );
+    const toBoardSquare = (square: number) => squareName(shouldFlip ? 63 - square : square);
+
     return {
       fen: piecesToFen(normalizedPieces),
       pieces: normalizedPieces,
-      confidences,
+      confidences: normalizedConfidences,
       perspective,
       wasFlipped: shouldFlip,
       averageConfidence: confidences.length > 0 ? confidenceSum / confidences.length : 0,
+      highlightedSquares: highlighted.map(toBoardSquare),
+      annotations: annotations.map((annotation) => ({
+        from: toBoardSquare(annotation.from),
+        to: toBoardSquare(annotation.to),
+        color: annotation.color,
+      })),
+      modelId,
+      reclassifiedSquares: squares.length,
     };
   }
 
-  async dispose(): Promise<void> {
-    if (!this.session) {
+  // Always use the given registry model, or null to go back to auto-selection. Either way the
+  // auto choice is made afresh, so this also resets it for a new video.
+  pinModel(modelId: string | null): void {
+    this.pinnedModelId = modelId;
+    this.selectedModel = null;
+    this.autoTrials = 0;
+    this.lastReads = null;
+  }
+
+  // The tracked board changed: the model picked for the previous board is picked afresh.
+  forgetBoard(): void {
+    this.selectedModel = null;
+    this.autoTrials = 0;
+    this.lastReads = null;
+  }
+
+  // Learn this board's empty-square colors for the heuristic fallback. Returns false when the
+  // image does not show a usable checkerboard; colors are then estimated per frame. Reads made
+  // with the previous colors stay reusable unless the learned colors actually changed.
+  calibrate(boardImage: ImageData): boolean {
+    const squareColors = learnSquareColors(boardImage);
+    if (!sameSquareColors(this.squareColors, squareColors)) {
+      this.squareColors = squareColors;
+      this.lastReads = null;
+    }
+    return this.squareColors !== null;
+  }
+
+  setTemplates(templates: PieceTemplates | null): void {
+    this.templates = templates;
+    this.lastReads = null;
+  }
+
+  hasTemplates(): boolean {
+    return this.templates !== null;
+  }
+
+  // Run inference on the given backend, or null to benchmark the available ones and use the
+  // fastest. Loaded models are reloaded on the new backend.
+  async setBackend(backend: InferenceBackend | null): Promise<void> {
+    if (backend === this.backendPreference) {
       return;
     }
 
-    try {
-      const releasable = this.session as InferenceSession & { release?: () => Promise<void> };
-      if (typeof releasable.release === 'function') {
-        await releasable.release();
+    this.backendPreference = backend;
+    await this.releaseSessions();
+  }
+
+  getBackendReport(): BackendReport {
+    return this.backendReport;
+  }
+
+  async dispose(): Promise<void> {
+    this.selectedModel = null;
+    this.autoTrials = 0;
+    this.lastReads = null;
+    await this.releaseSessions();
+  }
+
+  private async releaseSessions(): Promise<void> {
+    const pending = [...this.sessions.values()];
+    this.sessions.clear();
+    this.unavailableModels.clear();
+    this.lastReads = null;
+    this.backendChoice = null;
+    this.backendReport = { backend: null, benchmarks: [] };
+
+    for (const session of await Promise.all(pending)) {
+      await releaseSession(session);
+    }
+  }
+
+  // The model's reads of `squares`, else the heuristic's; templates cut from this video's own
+  // piece set win wherever they are more certain.
+  private async readSquares(boardImage: ImageData, squares: readonly number[]): Promise<SquareReads> {
+    const { tensorData, occupancy } = this.preprocessBoard(boardImage, this.options.tileSize, squares);
+    const tensors = new Map([[this.options.tileSize, tensorData]]);
+    const inference = await this.inferPieces(boardImage, squares, tensors);
+    const { pieces, confidences } = inference ?? this.heuristicPieces(boardImage, occupancy, squares);
+
+    if (this.templates) {
+      const matched = this.templates.match(boardImage, squares);
+      for (const square of squares) {
+        if (matched.confidences[square] > confidences[square]) {
+          pieces[square] = matched.pieces[square];
+          confidences[square] = matched.confidences[square];
+        }
       }
-    } catch (error) {
-      console.warn('[PieceClassifier] Failed to release ONNX session', error);
-    } finally {
-      this.session = null;
-      this.modelLoadPromise = null;
     }
+
+    return { pieces, confidences, modelId: inference?.model.id ?? null };
   }
 
-  private async ensureModelLoaded(): Promise<void> {
-    if (this.options.forceMock || this.session || this.modelLoadPromise) {
-      return this.modelLoadPromise ?? Promise.resolve();
+  // The pinned model, else the auto-selected one. Before a model has been selected every
+  // candidate reads the board and the most confident result is used.
+  private async inferPieces(
+    boardImage: ImageData,
+    squares: readonly number[],
+    tensors: Map<number, Float32Array>,
+  ): Promise<ModelInference | null> {
+    const pinned = this.pinnedModelId ? findClassifierModel(this.pinnedModelId) : null;
+    const chosen = pinned ?? this.selectedModel;
+    if (chosen) {
+      const inference = await this.runModel(chosen, boardImage, squares, tensors);
+      if (inference) {
+        return inference;
+      }
+    }
+
+    let best: ModelInference | null = null;
+    for (const model of this.options.models) {
+      const inference = await this.runModel(model, boardImage, squares, tensors);
+      if (inference && (!best || inference.averageConfidence > best.averageConfidence)) {
+        best = inference;
+      }
     }
 
-    this.modelLoadPromise = (async () => {
-      try {
-        const modelPath = this.resolveModelPath(this.options.modelPath);
-        this.session = await InferenceSession.create(modelPath, {
-          executionProviders: ['wasm'],
-          graphOptimizationLevel: 'all',
-        });
-      } catch (error) {
-        console.warn('[PieceClassifier] Failed to load ONNX model, using heuristic fallback.', error);
-        this.session = null;
+    if (best && !pinned && squares.length === ALL_SQUARES.length && this.isTrialBoard(best)) {
+      this.autoTrials += 1;
+      if (best.averageConfidence >= AUTO_SELECT_MIN_CONFIDENCE || this.autoTrials >= AUTO_SELECT_MAX_TRIALS) {
+        this.selectedModel = best.model;
       }
+    }
+
+    return best;
+  }
+
+  // Auto-selection is still running and some candidate may yet load.
+  private isSelectingModel(): boolean {
+    if (this.options.forceMock || this.pinnedModelId || this.selectedModel) {
+      return false;
+    }
+    return this.options.models.some((model) => !this.unavailableModels.has(model.id));
+  }
+
+  private isTrialBoard(inference: ModelInference): boolean {
+    const kings = inference.pieces.filter((piece) => piece === 'K' || piece === 'k');
+    return (
+      inference.averageConfidence >= AUTO_SELECT_TRIAL_MIN_CONFIDENCE &&
+      kings.length === 2 &&
+      kings[0] !== kings[1]
+    );
+  }
+
+  private async runModel(
+    model: ClassifierModelInfo,
+    boardImage: ImageData,
+    squares: readonly number[],
+    tensors: Map<number, Float32Array>,
+  ): Promise<ModelInference | null> {
+    const session = await this.loadSession(model);
+    if (!session) {
+      return null;
+    }
+
+    let tensorData = tensors.get(model.tileSize);
+    if (!tensorData) {
+      tensorData = this.preprocessBoard(boardImage, model.tileSize, squares).tensorData;
+      tensors.set(model.tileSize, tensorData);
+    }
+
+    const logits = await this.runInference(session, model, tensorData, squares.length);
+    if (!logits) {
+      return null;
+    }
+
+    const read = this.logitsToPieces(logits, squares.length);
+    const pieces = new Array<string>(64).fill('1');
+    const confidences = new Float32Array(64);
+    let confidenceSum = 0;
+    squares.forEach((square, i) => {
+      pieces[square] = read.pieces[i];
+      confidences[square] = read.confidences[i];
+      confidenceSum += read.confidences[i];
+    });
+
+    return { model, pieces, confidences, averageConfidence: confidenceSum / squares.length };
+  }
+
+  // Loaded once per model; a model that fails to load stays skipped.
+  private loadSession(model: ClassifierModelInfo): Promise<InferenceSession | null> {
+    if (this.options.forceMock) {
+      return Promise.resolve(null);
+    }
+
+    let pending = this.sessions.get(model.id);
+    if (!pending) {
+      pending = (async () => {
+        const backend = await this.chooseBackend(model);
+        if (!backend) {
+          console.warn(`[PieceClassifier] No backend could run ONNX model "${model.id}", skipping it.`);
+          this.unavailableModels.add(model.id);
+          return null;
+        }
+
+        try {
+          return await InferenceSession.create(this.resolveModelPath(model.path), {
+            executionProviders: executionProvidersFor(backend),
+            graphOptimizationLevel: 'all',
+          });
+        } catch (error) {
+          console.warn(`[PieceClassifier] Failed to load ONNX model "${model.id}", skipping it.`, error);
+          this.unavailableModels.add(model.id);
+          return null;
+        }
+      })();
+      this.sessions.set(model.id, pending);
+    }
+
+    return pending;
+  }
+
+  // Chosen once, on the first model that loads: the pinned backend if it runs the model, else the
+  // fastest of the available ones after a warm-up benchmark. When nothing runs this model (a
+  // missing file, most likely) the choice is left open for the next one.
+  private chooseBackend(model: ClassifierModelInfo): Promise<InferenceBackend | null> {
+    this.backendChoice ??= (async () => {
+      configureWasmRuntime(this.backendPreference);
+      const modelUrl = this.resolveModelPath(model.path);
+      const benchmarks: BackendBenchmark[] = [];
+
+      if (this.backendPreference) {
+        const pinned = await benchmarkBackend(this.backendPreference, modelUrl, model.tileSize);
+        benchmarks.push(pinned);
+        if (pinned.inferenceMs !== null) {
+          this.backendReport = { backend: pinned.backend, benchmarks };
+          return pinned.backend;
+        }
+        console.warn(`[PieceClassifier] Pinned backend ${pinned.backend} failed, benchmarking others.`, pinned.error);
+      }
+
+      for (const backend of await detectBackends()) {
+        if (backend !== this.backendPreference) {
+          benchmarks.push(await benchmarkBackend(backend, modelUrl, model.tileSize));
+        }
+      }
+
+      const fastest = benchmarks
+        .filter((benchmark) => benchmark.inferenceMs !== null)
+        .sort((a, b) => (a.inferenceMs as number) - (b.inferenceMs as number))[0];
+      if (!fastest) {
+        this.backendChoice = null;
+        return null;
+      }
+
+      this.backendReport = { backend: fastest.backend, benchmarks };
+      return fastest.backend;
     })();
 
-    return this.modelLoadPromise;
+    return this.backendChoice;
   }
 
   private resolveModelPath(path: string): string {
@@ -140,14 +446,15 @@ export class PieceClassifier {
     return path;
   }
 
+  // One tile per entry of `squares`, in that order; occupancy is indexed by square.
   private preprocessBoard(
     boardImage: ImageData,
     tileSize: number,
+    squares: readonly number[] = ALL_SQUARES,
   ): { tensorData: Float32Array; occupancy: Float32Array } {
-    const squares = 64;
     const channels = 1;
-    const data = new Float32Array(squares * channels * tileSize * tileSize);
-    const occupancy = new Float32Array(squares);
+    const data = new Float32Array(squares.length * channels * tileSize * tileSize);
+    const occupancy = new Float32Array(64);
 
     const src = boardImage.data;
     const tileWidth = boardImage.width / 8;
@@ -155,34 +462,34 @@ export class PieceClassifier {
 
     let outIndex = 0;
 
-    for (let rank = 0; rank < 8; rank++) {
-      for (let file = 0; file < 8; file++) {
-        let sum = 0;
-        let sumSq = 0;
-
-        for (let ty = 0; ty < tileSize; ty++) {
-          const sy = Math.min(
-            boardImage.height - 1,
-            Math.floor(rank * tileHeight + ((ty + 0.5) * tileHeight) / tileSize),
+    for (const square of squares) {
+      const rank = Math.floor(square / 8);
+      const file = square % 8;
+      let sum = 0;
+      let sumSq = 0;
+
+      for (let ty = 0; ty < tileSize; ty++) {
+        const sy = Math.min(
+          boardImage.height - 1,
+          Math.floor(rank * tileHeight + ((ty + 0.5) * tileHeight) / tileSize),
+        );
+        for (let tx = 0; tx < tileSize; tx++) {
+          const sx = Math.min(
+            boardImage.width - 1,
+            Math.floor(file * tileWidth + ((tx + 0.5) * tileWidth) / tileSize),
           );
-          for (let tx = 0; tx < tileSize; tx++) {
-            const sx = Math.min(
-              boardImage.width - 1,
-              Math.floor(file * tileWidth + ((tx + 0.5) * tileWidth) / tileSize),
-            );
-
-            const lum = this.sampleOverlaySafeLuminance(src, boardImage.width, boardImage.height, sx, sy);
-            data[outIndex++] = lum;
-            sum += lum;
-            sumSq += lum * lum;
-          }
-        }
 
-        const pixelCount = tileSize * tileSize;
-        const mean = sum / pixelCount;
-        const variance = Math.max(0, sumSq / pixelCount - mean * mean);
-        occupancy[rank * 8 + file] = Math.sqrt(variance);
+          const lum = this.sampleOverlaySafeLuminance(src, boardImage.width, boardImage.height, sx, sy);
+          data[outIndex++] = lum;
+          sum += lum;
+          sumSq += lum * lum;
+        }
       }
+
+      const pixelCount = tileSize * tileSize;
+      const mean = sum / pixelCount;
+      const variance = Math.max(0, sumSq / pixelCount - mean * mean);
+      occupancy[square] = Math.sqrt(variance);
     }
 
     return { tensorData: data, occupancy };
@@ -277,36 +584,57 @@ export class PieceClassifier {
     );
   }
 
-  private async runInference(input: Float32Array): Promise<Float32Array | null> {
-    if (!this.session) {
-      return null;
+  // Logits for the first `tiles` tiles of `input`. Models exported with a fixed batch of 64 reject
+  // smaller batches; they are remembered and given the tiles padded up to a full board.
+  private async runInference(
+    session: InferenceSession,
+    model: ClassifierModelInfo,
+    input: Float32Array,
+    tiles: number,
+  ): Promise<Float32Array | null> {
+    const inputName = session.inputNames[0];
+    const outputName = session.outputNames[0];
+    const { tileSize } = model;
+    const batch = this.fullBatchModels.has(model.id) ? 64 : tiles;
+
+    let data = input;
+    if (batch !== tiles) {
+      data = new Float32Array(batch * tileSize * tileSize);
+      data.set(input);
     }
 
-    const inputName = this.session.inputNames[0];
-    const outputName = this.session.outputNames[0];
+    const tensor = new Tensor('float32', data, [batch, 1, tileSize, tileSize]);
+    let outputs: InferenceSession.OnnxValueMapType;
+    try {
+      outputs = await session.run({ [inputName]: tensor });
+    } catch (error) {
+      if (batch === 64) {
+        throw error;
+      }
+      this.fullBatchModels.add(model.id);
+      return this.runInference(session, model, input, tiles);
+    }
 
-    const tensor = new Tensor('float32', input, [64, 1, this.options.tileSize, this.options.tileSize]);
-    const outputs = await this.session.run({ [inputName]: tensor });
     const raw = outputs[outputName];
     if (!raw?.data) {
       return null;
     }
 
     const logits = raw.data as Float32Array;
-    if (logits.length !== 64 * PIECE_LABELS.length) {
+    if (logits.length !== batch * PIECE_LABELS.length) {
       console.warn('[PieceClassifier] Unexpected model output shape, using fallback.', raw.dims);
       return null;
     }
 
-    return logits;
+    return logits.subarray(0, tiles * PIECE_LABELS.length);
   }
 
-  private logitsToPieces(logits: Float32Array): { pieces: string[]; confidences: Float32Array } {
-    const pieces = new Array<string>(64);
-    const confidences = new Float32Array(64);
+  private logitsToPieces(logits: Float32Array, tiles: number): { pieces: string[]; confidences: Float32Array } {
+    const pieces = new Array<string>(tiles);
+    const confidences = new Float32Array(tiles);
     const classes = PIECE_LABELS.length;
 
-    for (let square = 0; square < 64; square++) {
+    for (let square = 0; square < tiles; square++) {
       let bestClass = 0;
       let bestScore = -Infinity;
       let secondScore = -Infinity;
@@ -337,6 +665,19 @@ export class PieceClassifier {
     return { pieces, confidences };
   }
 
+  private heuristicPieces(
+    boardImage: ImageData,
+    varianceOccupancy: Float32Array,
+    squares: readonly number[],
+  ): { pieces: string[]; confidences: Float32Array } {
+    const squareColors = this.squareColors ?? learnSquareColors(boardImage);
+    if (squareColors) {
+      return identifyPieces(boardImage, squareColors, squares);
+    }
+    return this.heuristicPiecesFromOccupancy(varianceOccupancy);
+  }
+
+  // Last resort when no checkerboard can be made out: occupancy only, with start-position guesses.
   private heuristicPiecesFromOccupancy(occupancy: Float32Array): { pieces: string[]; confidences: Float32Array } {
     const threshold = 0.08;
     const pieces = new Array<string>(64).fill('1');
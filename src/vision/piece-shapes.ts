@@ -0,0 +1,211 @@
+import { ALL_SQUARES } from './fen-utils';
+import {
+  measureOccupancy,
+  sampleForeground,
+  squareLuminance,
+  type SquareColorModel,
+  type TileForeground,
+} from './square-colors';
+
+type PieceType = 'p' | 'n' | 'b' | 'r' | 'q' | 'k';
+
+export interface PieceShapeFeatures {
+  // Silhouette height as a fraction of the tile.
+  height: number;
+  // Silhouette width per horizontal band, top to bottom, relative to the widest band.
+  profile: number[];
+  // 0 for a mirror-symmetric silhouette, up to 1 when the halves do not overlap at all.
+  asymmetry: number;
+  // Mean luminance (0..255) of the piece body, excluding its outline.
+  fillLuminance: number;
+}
+
+interface ShapePrototype {
+  type: PieceType;
+  height: number;
+  profile: number[];
+  asymmetry: number;
+}
+
+export interface IdentifiedPieces {
+  pieces: string[];
+  confidences: Float32Array;
+}
+
+const MASK_SIZE = 24;
+const PROFILE_BANDS = 10;
+// Occupied when more of the tile than this differs from the learned square color.
+const OCCUPIED_FRACTION = 0.12;
+// Stray specks (noise, coordinate glyphs) smaller than this share of the tile are not pieces.
+const MIN_SILHOUETTE_AREA = 0.04;
+
+// Staunton-style silhouettes as seen from the side. Heights follow the usual ordering
+// (king tallest, pawn shortest); the knight is the only markedly asymmetric piece.
+const PROTOTYPES: ShapePrototype[] = [
+  { type: 'p', height: 0.55, profile: [0.35, 0.45, 0.4, 0.3, 0.35, 0.45, 0.6, 0.8, 1, 1], asymmetry: 0.05 },
+  { type: 'r', height: 0.66, profile: [0.85, 0.85, 0.7, 0.6, 0.6, 0.6, 0.65, 0.8, 1, 1], asymmetry: 0.05 },
+  { type: 'n', height: 0.74, profile: [0.4, 0.6, 0.75, 0.8, 0.7, 0.55, 0.6, 0.8, 1, 1], asymmetry: 0.2 },
+  { type: 'b', height: 0.78, profile: [0.15, 0.3, 0.45, 0.5, 0.4, 0.35, 0.45, 0.7, 1, 1], asymmetry: 0.05 },
+  { type: 'q', height: 0.84, profile: [0.6, 0.55, 0.5, 0.45, 0.4, 0.4, 0.5, 0.7, 1, 1], asymmetry: 0.05 },
+  { type: 'k', height: 0.9, profile: [0.15, 0.2, 0.45, 0.55, 0.5, 0.45, 0.5, 0.7, 1, 1], asymmetry: 0.05 },
+];
+
+const HEIGHT_WEIGHT = 6;
+const ASYMMETRY_WEIGHT = 4;
+
+// Model-free piece identification against a board's learned square colors: occupancy from how
+// much of a tile differs from its background, color from the piece body's brightness relative
+// to the squares, and type from the nearest silhouette prototype. Only `squares` are read; the
+// rest stay empty with zero confidence.
+export function identifyPieces(
+  boardImage: ImageData,
+  model: SquareColorModel,
+  squares: readonly number[] = ALL_SQUARES,
+): IdentifiedPieces {
+  const pieces = new Array<string>(64).fill('1');
+  const confidences = new Float32Array(64);
+  const occupancy = measureOccupancy(boardImage, model);
+  const squareMidpoint = (squareLuminance(model.light) + squareLuminance(model.dark)) / 2;
+
+  for (const square of squares) {
+    const occupied = occupancy[square];
+    if (occupied < OCCUPIED_FRACTION) {
+      confidences[square] = Math.max(0.2, 1 - occupied / OCCUPIED_FRACTION);
+      continue;
+    }
+
+    const features = describeShape(sampleForeground(boardImage, model, square, MASK_SIZE));
+    if (!features) {
+      confidences[square] = 0.3;
+      continue;
+    }
+
+    const { type, confidence } = matchPrototype(features);
+    const isWhite = features.fillLuminance > squareMidpoint;
+    pieces[square] = isWhite ? type.toUpperCase() : type;
+    confidences[square] = confidence;
+  }
+
+  return { pieces, confidences };
+}
+
+export function describeShape(tile: TileForeground): PieceShapeFeatures | null {
+  const { size, mask } = tile;
+
+  let minX = size;
+  let maxX = -1;
+  let minY = size;
+  let maxY = -1;
+  let area = 0;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (mask[y * size + x] === 1) {
+        area++;
+        minX = Math.min(minX, x);
+        maxX = Math.max(maxX, x);
+        minY = Math.min(minY, y);
+        maxY = Math.max(maxY, y);
+      }
+    }
+  }
+
+  if (area < size * size * MIN_SILHOUETTE_AREA) {
+    return null;
+  }
+
+  const boxHeight = maxY - minY + 1;
+  const widths = new Float32Array(PROFILE_BANDS);
+  const rows = new Float32Array(PROFILE_BANDS);
+  for (let y = minY; y <= maxY; y++) {
+    let rowLeft = -1;
+    let rowRight = -1;
+    for (let x = minX; x <= maxX; x++) {
+      if (mask[y * size + x] === 1) {
+        if (rowLeft < 0) rowLeft = x;
+        rowRight = x;
+      }
+    }
+    const band = Math.min(PROFILE_BANDS - 1, Math.floor(((y - minY) / boxHeight) * PROFILE_BANDS));
+    widths[band] += rowLeft < 0 ? 0 : rowRight - rowLeft + 1;
+    rows[band] += 1;
+  }
+
+  const profile = Array.from(widths, (width, band) => (rows[band] > 0 ? width / rows[band] : 0));
+  const widest = Math.max(...profile);
+
+  // Mirror around the silhouette's center column and count pixels without a counterpart.
+  const center = (minX + maxX) / 2;
+  let unmatched = 0;
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      const mirrored = Math.round(2 * center - x);
+      if (mask[y * size + x] === 1 && (mirrored < 0 || mirrored >= size || mask[y * size + mirrored] === 0)) {
+        unmatched++;
+      }
+    }
+  }
+
+  return {
+    height: (boxHeight / size) * tile.span,
+    profile: profile.map((width) => (widest > 0 ? width / widest : 0)),
+    asymmetry: unmatched / area,
+    fillLuminance: bodyLuminance(tile),
+  };
+}
+
+// Pieces are drawn with a contrasting outline; only pixels surrounded by foreground tell the
+// body's color.
+function bodyLuminance(tile: TileForeground): number {
+  const { size, mask, luminance } = tile;
+  let interior = 0;
+  let interiorCount = 0;
+  let all = 0;
+  let allCount = 0;
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const idx = y * size + x;
+      if (mask[idx] === 0) {
+        continue;
+      }
+
+      all += luminance[idx];
+      allCount++;
+
+      const surrounded =
+        x > 0 && x + 1 < size && y > 0 && y + 1 < size &&
+        mask[idx - 1] === 1 && mask[idx + 1] === 1 && mask[idx - size] === 1 && mask[idx + size] === 1;
+      if (surrounded) {
+        interior += luminance[idx];
+        interiorCount++;
+      }
+    }
+  }
+
+  if (interiorCount > 0) {
+    return interior / interiorCount;
+  }
+  return allCount > 0 ? all / allCount : 0;
+}
+
+function matchPrototype(features: PieceShapeFeatures): { type: PieceType; confidence: number } {
+  const distances = PROTOTYPES.map((prototype) => {
+    let profileError = 0;
+    for (let band = 0; band < PROFILE_BANDS; band++) {
+      profileError += (features.profile[band] - prototype.profile[band]) ** 2;
+    }
+
+    return {
+      type: prototype.type,
+      distance:
+        profileError / PROFILE_BANDS +
+        HEIGHT_WEIGHT * (features.height - prototype.height) ** 2 +
+        ASYMMETRY_WEIGHT * (features.asymmetry - prototype.asymmetry) ** 2,
+    };
+  }).sort((a, b) => a.distance - b.distance);
+
+  const [best, second] = distances;
+  // Shape matching is rough: confidence comes from how clearly the best prototype wins.
+  const separation = (second.distance - best.distance) / (second.distance + best.distance + 1e-6);
+  return { type: best.type, confidence: Math.max(0.4, Math.min(0.85, 0.5 + separation * 0.6)) };
+}
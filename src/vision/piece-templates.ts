@@ -0,0 +1,164 @@
+import { ALL_SQUARES, fenToPieces, rotatePieces180, START_BOARD_FEN } from './fen-utils';
+import {
+  isLightSquare,
+  learnSquareColors,
+  sampleForeground,
+  squareLuminance,
+  type SquareColorModel,
+} from './square-colors';
+
+export interface PieceTemplate {
+  // FEN piece letter, or '1' for an empty square.
+  label: string;
+  // Square color the template was seen on.
+  light: boolean;
+  // size x size luminance samples.
+  pixels: Uint8Array;
+}
+
+// Structured-clone and JSON friendly form, for the worker boundary and chrome.storage.
+export interface PieceTemplateData {
+  size: number;
+  squareColors: SquareColorModel;
+  templates: Array<{ label: string; light: boolean; pixels: string }>;
+}
+
+export interface TemplateMatch {
+  pieces: string[];
+  confidences: Float32Array;
+}
+
+const TEMPLATE_SIZE = 24;
+// Mean absolute luminance difference at which a template stops resembling the tile at all.
+const MAX_DIFFERENCE = 64;
+// Tiles may sit a sample off the templates when the board region shifts slightly.
+const MAX_SHIFT = 1;
+
+// Tiles of one video's piece set, cut from a recognized starting position. Every piece appears
+// there on both square colors except the queens and kings; those get a copy of themselves with
+// the other square's background painted in.
+export class PieceTemplates {
+  private constructor(
+    private readonly size: number,
+    private readonly squareColors: SquareColorModel,
+    private readonly templates: PieceTemplate[],
+  ) {}
+
+  // `flipped` says the image shows the board from black's side.
+  static harvest(boardImage: ImageData, flipped: boolean): PieceTemplates | null {
+    const squareColors = learnSquareColors(boardImage);
+    if (!squareColors) {
+      return null;
+    }
+
+    const start = fenToPieces(START_BOARD_FEN);
+    const layout = flipped ? rotatePieces180(start) : start;
+    const templates: PieceTemplate[] = [];
+
+    for (let square = 0; square < 64; square++) {
+      const tile = sampleForeground(boardImage, squareColors, square, TEMPLATE_SIZE);
+      const light = isLightSquare(square);
+      const pixels = Uint8Array.from(tile.luminance, (value) => Math.round(value));
+      templates.push({ label: layout[square], light, pixels });
+
+      const label = layout[square];
+      const seenOnOtherColor = layout.some((other, i) => other === label && isLightSquare(i) !== light);
+      if (label !== '1' && !seenOnOtherColor) {
+        const otherBackground = Math.round(squareLuminance(light ? squareColors.dark : squareColors.light));
+        templates.push({
+          label,
+          light: !light,
+          pixels: pixels.map((value, i) => (tile.mask[i] === 1 ? value : otherBackground)),
+        });
+      }
+    }
+
+    return new PieceTemplates(TEMPLATE_SIZE, squareColors, templates);
+  }
+
+  static deserialize(data: PieceTemplateData): PieceTemplates {
+    const templates = data.templates.map((template) => ({
+      label: template.label,
+      light: template.light,
+      pixels: Uint8Array.from(atob(template.pixels), (char) => char.charCodeAt(0)),
+    }));
+    return new PieceTemplates(data.size, data.squareColors, templates);
+  }
+
+  serialize(): PieceTemplateData {
+    return {
+      size: this.size,
+      squareColors: this.squareColors,
+      templates: this.templates.map((template) => ({
+        label: template.label,
+        light: template.light,
+        pixels: btoa(String.fromCharCode(...template.pixels)),
+      })),
+    };
+  }
+
+  // Labels in image orientation (a8 top-left as shown), like the classifier's raw output. Squares
+  // not in `squares` are left empty with zero confidence.
+  match(boardImage: ImageData, squares: readonly number[] = ALL_SQUARES): TemplateMatch {
+    const pieces = new Array<string>(64).fill('1');
+    const confidences = new Float32Array(64);
+
+    for (const square of squares) {
+      const tile = sampleForeground(boardImage, this.squareColors, square, this.size).luminance;
+      const light = isLightSquare(square);
+
+      // Best similarity per label, so near-duplicates of the winner do not count as rivals.
+      const bestByLabel = new Map<string, number>();
+      for (const template of this.templates) {
+        if (template.light !== light) {
+          continue;
+        }
+        const similarity = this.similarity(tile, template.pixels);
+        if (similarity > (bestByLabel.get(template.label) ?? -1)) {
+          bestByLabel.set(template.label, similarity);
+        }
+      }
+
+      let best = '1';
+      let bestScore = 0;
+      let runnerUp = 0;
+      for (const [label, score] of bestByLabel) {
+        if (score > bestScore) {
+          runnerUp = bestScore;
+          best = label;
+          bestScore = score;
+        } else if (score > runnerUp) {
+          runnerUp = score;
+        }
+      }
+
+      pieces[square] = best;
+      confidences[square] = bestScore * Math.min(1, 0.6 + (bestScore - runnerUp) * 4);
+    }
+
+    return { pieces, confidences };
+  }
+
+  // 1 for identical tiles, 0 at MAX_DIFFERENCE mean absolute difference or worse; the best of
+  // the small shifts tried.
+  private similarity(tile: Float32Array, template: Uint8Array): number {
+    const size = this.size;
+    let best = 0;
+
+    for (let dy = -MAX_SHIFT; dy <= MAX_SHIFT; dy++) {
+      for (let dx = -MAX_SHIFT; dx <= MAX_SHIFT; dx++) {
+        let difference = 0;
+        let count = 0;
+        for (let y = MAX_SHIFT; y < size - MAX_SHIFT; y++) {
+          for (let x = MAX_SHIFT; x < size - MAX_SHIFT; x++) {
+            difference += Math.abs(tile[(y + dy) * size + x + dx] - template[y * size + x]);
+            count++;
+          }
+        }
+        best = Math.max(best, 1 - difference / count / MAX_DIFFERENCE);
+      }
+    }
+
+    return best;
+  }
+}
@@ -1,5 +1,12 @@
-import { ChangeDetector } from './change-detector';
-import { FrameCapture, type Rect } from './frame-capture';
+import type { BoardAnnotation } from './annotations';
+import type { BoardCorners } from './board-detector';
+import { ChangeDetector, type ChangeType } from './change-detector';
+import { piecesToFen } from './fen-utils';
+import { FrameCapture, type CapturedFrame, type Rect } from './frame-capture';
+import type { BackendBenchmark, InferenceBackend } from './inference-backends';
+import type { DetectedMove } from './move-inference';
+import type { PieceTemplateData } from './piece-templates';
+import { PositionStabilizer } from './position-stabilizer';
 
 export type BoardRegion = Rect;
 
@@ -7,13 +14,27 @@ interface VisionWorkerResult {
   type: 'result';
   requestId: number;
   fen: string;
+  pieces: string[];
+  confidences: number[];
+  // Tinted last-move squares in board coordinates, e.g. ['e2', 'e4'].
+  highlightedSquares: string[];
+  annotations: BoardAnnotation[];
   boardRegion: BoardRegion;
+  boardCandidates: BoardRegion[];
+  trackedBoardIndex: number;
   confidenceAverage: number;
   lowConfidenceSquares: number;
   detectorMs: number;
+  boardFitScore: number;
   classifierMs: number;
+  reclassifiedSquares: number;
   processingMs: number;
   wasFlipped: boolean;
+  trackingLost: boolean;
+  classifierModel: string | null;
+  inferenceBackend: InferenceBackend | null;
+  backendBenchmarks: BackendBenchmark[];
+  videoTime: number;
 }
 
 interface VisionWorkerError {
@@ -22,28 +43,67 @@ interface VisionWorkerError {
   message: string;
 }
 
-type VisionWorkerMessage = VisionWorkerResult | VisionWorkerError;
+interface VisionWorkerTemplates {
+  type: 'templates';
+  templates: PieceTemplateData;
+}
+
+interface VisionWorkerNoBoard {
+  type: 'no-board';
+  requestId: number;
+}
+
+type VisionWorkerMessage = VisionWorkerResult | VisionWorkerError | VisionWorkerTemplates | VisionWorkerNoBoard;
 
 export interface VisionPipelineOptions {
   captureIntervalMs: number;
   boardRefreshMs: number;
+  // Once a board is tracked only its surroundings are captured; the whole frame is searched
+  // again this often (and whenever the board is lost) for boards that moved or appeared.
+  fullFrameRefreshMs: number;
   lowConfidenceThreshold: number;
+  stabilizationFrames: number;
+  stabilizationDwellMs: number;
+  perspectiveCorrection: boolean;
+  // Frames are only read when the caller asks through processFrame(), e.g. while stepping
+  // through a video by seeking instead of playing it.
+  manualCapture: boolean;
 }
 
 export interface VisionPerformanceStats {
   fps: number;
   processingMs: number;
   detectorMs: number;
+  boardFitScore: number;
   classifierMs: number;
+  // Squares read again this frame (of 64); unchanged ones reuse their previous labels.
+  reclassifiedSquares: number;
   confidenceAverage: number;
   lowConfidenceSquares: number;
+  // Captures dropped since start because the board looked unchanged.
+  skippedFrames: number;
+  // Registry id of the piece model reading the board; null while the heuristic fallback does.
+  classifierModel: string | null;
+  // Execution provider running the model; null until one has loaded.
+  inferenceBackend: InferenceBackend | null;
+  // Warm-up timings of every backend tried when the choice was made.
+  backendBenchmarks: BackendBenchmark[];
 }
 
 export interface VisionPipelineUpdate {
   fen: string;
   boardRegion: BoardRegion;
-  change: 'no-change' | 'move' | 'new-game';
+  // Every board found in the frame, primary first; trackedBoardIndex is -1 when the tracked
+  // board was not among them this refresh.
+  boardCandidates: BoardRegion[];
+  trackedBoardIndex: number;
+  change: ChangeType;
+  move: DetectedMove | null;
+  // Arrows and marked squares the streamer drew on the board in this frame.
+  annotations: BoardAnnotation[];
   timestamp: number;
+  // Position in the video (seconds) of the frame this update was detected from.
+  videoTime: number;
   wasFlipped: boolean;
   performance: VisionPerformanceStats;
 }
@@ -51,33 +111,72 @@ export interface VisionPipelineUpdate {
 const DEFAULT_OPTIONS: VisionPipelineOptions = {
   captureIntervalMs: 1500,
   boardRefreshMs: 1000,
+  fullFrameRefreshMs: 5000,
   lowConfidenceThreshold: 0.58,
+  stabilizationFrames: 2,
+  stabilizationDwellMs: 1000,
+  perspectiveCorrection: false,
+  manualCapture: false,
 };
 
 export class VisionPipeline {
   private readonly options: VisionPipelineOptions;
   private readonly frameCapture: FrameCapture;
   private readonly changeDetector: ChangeDetector;
+  private readonly stabilizer: PositionStabilizer;
   private readonly worker: Worker;
 
   private running = false;
   private activeVideo: HTMLVideoElement | null = null;
   private latestRequestId = 0;
   private lastDeliveredAt = 0;
+  private lastFullFrameAt = 0;
   private forceFlip = false;
+  private perspectiveCorrection: boolean;
+  private manualCorners: BoardCorners | null = null;
+  private pinnedModelId: string | null = null;
+  private pinnedBackend: InferenceBackend | null = null;
+  private templatesListener: ((templates: PieceTemplateData) => void) | null = null;
+  private pendingFrame: { requestId: number; resolve: () => void } | null = null;
+
+  private readonly onVideoSeeking = (): void => {
+    this.cancelLatest();
+    // Frames from before the seek must not vote on the position shown after it.
+    this.stabilizer.reset();
+    this.changeDetector.notifySeek();
+  };
+
+  private readonly onVideoSeeked = (): void => {
+    this.frameCapture.captureNow(true);
+  };
+
+  private readonly onVideoRateChange = (): void => {
+    // Frame spacing changes with playback rate; restart the FPS baseline.
+    this.lastDeliveredAt = 0;
+  };
 
   constructor(
     deps?: {
       frameCapture?: FrameCapture;
       changeDetector?: ChangeDetector;
+      stabilizer?: PositionStabilizer;
     },
     options: Partial<VisionPipelineOptions> = {},
   ) {
     this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.perspectiveCorrection = this.options.perspectiveCorrection;
     this.frameCapture = deps?.frameCapture ?? new FrameCapture(this.options.captureIntervalMs);
     this.changeDetector = deps?.changeDetector ?? new ChangeDetector();
+    this.stabilizer = deps?.stabilizer ?? new PositionStabilizer({
+      minFrames: this.options.stabilizationFrames,
+      minDwellMs: this.options.stabilizationDwellMs,
+    });
 
     this.worker = new Worker(new URL('./vision-worker.ts', import.meta.url), { type: 'module' });
+
+    // Static frames are skipped only once their position has been accepted; a position still
+    // collecting agreeing frames needs them.
+    this.frameCapture.setSkipUnchanged(() => this.stabilizer.isSettled());
   }
 
   start(videoElement: HTMLVideoElement, onUpdate: (update: VisionPipelineUpdate) => void): void {
@@ -92,15 +191,56 @@ export class VisionPipeline {
       this.handleWorkerMessage(event.data, onUpdate);
     };
 
-    this.frameCapture.start(videoElement, (frame) => {
-      this.handleFrame(frame);
+    this.frameCapture.setBoardRegion(null);
+    this.frameCapture.resetSkippedFrames();
+    // With manual capture the caller's seeks step through the video in place of playback; they
+    // are not jumps within the game.
+    if (this.options.manualCapture) {
+      return;
+    }
+
+    videoElement.addEventListener('seeking', this.onVideoSeeking);
+    videoElement.addEventListener('seeked', this.onVideoSeeked);
+    videoElement.addEventListener('ratechange', this.onVideoRateChange);
+    this.frameCapture.start(videoElement, (frame, videoTime) => {
+      this.handleFrame(frame, videoTime);
+    });
+  }
+
+  // Read the frame the video shows now. Resolves once the worker is done with it, including when
+  // no board was found or the request was superseded; updates have been delivered by then.
+  async processFrame(): Promise<void> {
+    const video = this.activeVideo;
+    if (!this.running || !video) {
+      return;
+    }
+
+    const videoTime = video.currentTime;
+    const frame = await this.frameCapture.capture(video);
+    if (!frame) {
+      return;
+    }
+
+    const requestId = this.handleFrame(frame, videoTime);
+    if (requestId === null) {
+      return;
+    }
+
+    await new Promise<void>((resolve) => {
+      this.pendingFrame = { requestId, resolve };
     });
   }
 
   stop(): void {
     this.running = false;
+    if (this.activeVideo) {
+      this.activeVideo.removeEventListener('seeking', this.onVideoSeeking);
+      this.activeVideo.removeEventListener('seeked', this.onVideoSeeked);
+      this.activeVideo.removeEventListener('ratechange', this.onVideoRateChange);
+    }
     this.frameCapture.stop();
     this.changeDetector.reset();
+    this.stabilizer.reset();
     this.activeVideo = null;
     this.cancelLatest();
     this.lastDeliveredAt = 0;
@@ -121,23 +261,111 @@ export class VisionPipeline {
     this.forceFlip = forceFlip;
   }
 
-  private handleFrame(frame: ImageData): void {
-    if (!this.running) {
+  setPerspectiveCorrection(enabled: boolean): void {
+    this.perspectiveCorrection = enabled;
+  }
+
+  setStabilizationFrames(frames: number): void {
+    this.stabilizer.setMinFrames(frames);
+  }
+
+  setStabilizationDwell(ms: number): void {
+    this.stabilizer.setMinDwellMs(ms);
+  }
+
+  // Track a hand-drawn board (corners as fractions of the frame) instead of detecting one;
+  // null goes back to automatic detection.
+  setManualRegion(corners: BoardCorners | null): void {
+    this.manualCorners = corners;
+    this.frameCapture.setBoardRegion(null);
+    this.cancelLatest();
+    this.stabilizer.reset();
+    this.changeDetector.reset();
+  }
+
+  // Piece templates for the current video, e.g. restored from cache; null drops them.
+  setPieceTemplates(templates: PieceTemplateData | null): void {
+    this.worker.postMessage({ type: 'set-templates', templates });
+  }
+
+  // Pin a classifier model by registry id, or null to let the worker pick the most confident.
+  setClassifierModel(modelId: string | null): void {
+    if (modelId === this.pinnedModelId) {
+      return;
+    }
+
+    this.pinnedModelId = modelId;
+    this.worker.postMessage({ type: 'set-model', modelId });
+  }
+
+  // A new video may use another piece set: choose the auto-selected model again.
+  resetModelSelection(): void {
+    this.worker.postMessage({ type: 'set-model', modelId: this.pinnedModelId });
+  }
+
+  // Pin an ONNX execution provider, or null to benchmark the available ones and use the fastest.
+  setInferenceBackend(backend: InferenceBackend | null): void {
+    if (backend === this.pinnedBackend) {
       return;
     }
 
+    this.pinnedBackend = backend;
+    this.worker.postMessage({ type: 'set-backend', backend });
+  }
+
+  // Called when the worker cuts templates from a recognized starting position.
+  onPieceTemplates(listener: ((templates: PieceTemplateData) => void) | null): void {
+    this.templatesListener = listener;
+  }
+
+  // Switch tracking to another detected board. Its position history starts over.
+  selectBoard(index: number): void {
+    this.cancelLatest();
+    this.worker.postMessage({ type: 'select-board', index });
+    this.frameCapture.setBoardRegion(null);
+    this.stabilizer.reset();
+    this.changeDetector.reset();
+  }
+
+  // Returns the id of the request sent to the worker, or null when the frame was dropped.
+  private handleFrame(frame: CapturedFrame, videoTime: number): number | null {
+    // Frames grabbed mid-seek may still show the old position.
+    if (!this.running || this.activeVideo?.seeking) {
+      frame.image.close();
+      return null;
+    }
+
     this.cancelLatest();
 
+    const now = Date.now();
+    const whole = frame.source.width === frame.videoWidth && frame.source.height === frame.videoHeight;
+    if (whole) {
+      this.lastFullFrameAt = now;
+    } else if (!this.manualCorners && now - this.lastFullFrameAt >= this.options.fullFrameRefreshMs) {
+      this.frameCapture.requestFullFrame();
+    }
+
     const requestId = ++this.latestRequestId;
-    this.worker.postMessage({
-      type: 'process',
-      requestId,
-      frame,
-      now: Date.now(),
-      boardRefreshMs: this.options.boardRefreshMs,
-      confidenceThreshold: this.options.lowConfidenceThreshold,
-      forceFlip: this.forceFlip,
-    });
+    // The bitmap is transferred, not copied; the worker closes it.
+    this.worker.postMessage(
+      {
+        type: 'process',
+        requestId,
+        frame: frame.image,
+        source: frame.source,
+        videoWidth: frame.videoWidth,
+        videoHeight: frame.videoHeight,
+        videoTime,
+        now,
+        boardRefreshMs: this.options.boardRefreshMs,
+        confidenceThreshold: this.options.lowConfidenceThreshold,
+        forceFlip: this.forceFlip,
+        perspective: this.perspectiveCorrection,
+        manualCorners: this.manualCorners,
+      },
+      [frame.image],
+    );
+    return requestId;
   }
 
   private handleWorkerMessage(message: VisionWorkerMessage, onUpdate: (update: VisionPipelineUpdate) => void): void {
@@ -145,39 +373,77 @@ export class VisionPipeline {
       return;
     }
 
+    if (message.type === 'templates') {
+      this.templatesListener?.(message.templates);
+      return;
+    }
+
     if (message.requestId !== this.latestRequestId) {
       return;
     }
 
     if (message.type === 'error') {
       console.error('[VisionPipeline] Worker failed to process frame', message.message);
-      return;
+    } else if (message.type === 'result') {
+      this.deliverResult(message, onUpdate);
     }
 
+    this.settlePendingFrame();
+  }
+
+  private deliverResult(message: VisionWorkerResult, onUpdate: (update: VisionPipelineUpdate) => void): void {
     const now = Date.now();
     const delta = this.lastDeliveredAt > 0 ? now - this.lastDeliveredAt : 0;
     this.lastDeliveredAt = now;
+    this.frameCapture.setBoardRegion(message.boardRegion);
+    if (message.trackingLost && !this.manualCorners) {
+      this.frameCapture.requestFullFrame();
+    }
 
-    const change = this.changeDetector.detect(message.fen);
+    // Only positions that persist across frames reach the change detector.
+    const stablePieces = this.stabilizer.push(message.pieces, message.confidences, now);
+    if (!stablePieces) {
+      return;
+    }
+
+    const change = this.changeDetector.detect(piecesToFen(stablePieces), message.highlightedSquares);
 
     onUpdate({
-      fen: message.fen,
+      fen: change.fen,
       boardRegion: message.boardRegion,
+      boardCandidates: message.boardCandidates,
+      trackedBoardIndex: message.trackedBoardIndex,
       change: change.type,
+      move: change.move,
+      annotations: message.annotations,
       timestamp: now,
+      videoTime: message.videoTime,
       wasFlipped: message.wasFlipped,
       performance: {
         fps: delta > 0 ? 1000 / delta : 0,
         processingMs: message.processingMs,
         detectorMs: message.detectorMs,
+        boardFitScore: message.boardFitScore,
         classifierMs: message.classifierMs,
+        reclassifiedSquares: message.reclassifiedSquares,
         confidenceAverage: message.confidenceAverage,
         lowConfidenceSquares: message.lowConfidenceSquares,
+        skippedFrames: this.frameCapture.getSkippedFrames(),
+        classifierModel: message.classifierModel,
+        inferenceBackend: message.inferenceBackend,
+        backendBenchmarks: message.backendBenchmarks,
       },
     });
   }
 
+  private settlePendingFrame(): void {
+    const pending = this.pendingFrame;
+    this.pendingFrame = null;
+    pending?.resolve();
+  }
+
   private cancelLatest(): void {
+    this.settlePendingFrame();
     if (this.latestRequestId === 0) {
       return;
     }
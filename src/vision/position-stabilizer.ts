@@ -0,0 +1,119 @@
+export interface PositionStabilizerOptions {
+  // Consecutive frames that must agree before a position is accepted.
+  minFrames: number;
+  // Alternatively accept a position that has been stable for this long (needs two agreeing frames).
+  minDwellMs: number;
+  // Squares classified at or above this confidence must match for a frame to count as agreeing.
+  agreementConfidence: number;
+}
+
+interface Observation {
+  pieces: string[];
+  confidences: ArrayLike<number>;
+}
+
+const DEFAULT_OPTIONS: PositionStabilizerOptions = {
+  minFrames: 2,
+  minDwellMs: 1000,
+  agreementConfidence: 0.6,
+};
+
+// Holds back transient positions (piece drags, transitions, mouse hovers) until they persist.
+// Frames that agree on every confidently classified square are pooled, and the candidate board
+// is their confidence-weighted per-square vote. It is accepted after minFrames agreeing frames,
+// or once it has been on screen for minDwellMs.
+export class PositionStabilizer {
+  private options: PositionStabilizerOptions;
+  private agreeing: Observation[] = [];
+  private candidate: string[] | null = null;
+  private candidateSince = 0;
+  private stable: string[] | null = null;
+
+  constructor(options: Partial<PositionStabilizerOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  setMinFrames(minFrames: number): void {
+    this.options = { ...this.options, minFrames: Math.max(1, Math.round(minFrames)) };
+  }
+
+  setMinDwellMs(minDwellMs: number): void {
+    this.options = { ...this.options, minDwellMs: Math.max(0, minDwellMs) };
+  }
+
+  // Returns the latest accepted position, or null until one has been accepted.
+  push(pieces: string[], confidences: ArrayLike<number>, now: number): string[] | null {
+    const observation: Observation = { pieces, confidences };
+
+    if (this.candidate && this.agrees(observation, this.candidate)) {
+      this.agreeing.push(observation);
+      if (this.agreeing.length > this.options.minFrames) {
+        this.agreeing.shift();
+      }
+    } else {
+      this.agreeing = [observation];
+      this.candidateSince = now;
+    }
+
+    this.candidate = this.vote();
+
+    const frames = this.agreeing.length;
+    const confirmed =
+      frames >= this.options.minFrames ||
+      (frames >= 2 && now - this.candidateSince >= this.options.minDwellMs);
+
+    if (confirmed) {
+      this.stable = this.candidate;
+    }
+
+    return this.stable;
+  }
+
+  // True when no new position is waiting for more frames to be accepted.
+  isSettled(): boolean {
+    const { candidate, stable } = this;
+    return candidate !== null && stable !== null && candidate.every((label, square) => label === stable[square]);
+  }
+
+  reset(): void {
+    this.agreeing = [];
+    this.candidate = null;
+    this.candidateSince = 0;
+    this.stable = null;
+  }
+
+  private agrees(observation: Observation, candidate: string[]): boolean {
+    for (let square = 0; square < 64; square++) {
+      const confident = (observation.confidences[square] ?? 0) >= this.options.agreementConfidence;
+      if (confident && observation.pieces[square] !== candidate[square]) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private vote(): string[] {
+    const voted = new Array<string>(64);
+
+    for (let square = 0; square < 64; square++) {
+      const weights = new Map<string, number>();
+      for (const observation of this.agreeing) {
+        const label = observation.pieces[square] ?? '1';
+        const weight = observation.confidences[square] ?? 0;
+        weights.set(label, (weights.get(label) ?? 0) + weight);
+      }
+
+      let bestLabel = '1';
+      let bestWeight = -Infinity;
+      for (const [label, weight] of weights) {
+        if (weight > bestWeight) {
+          bestLabel = label;
+          bestWeight = weight;
+        }
+      }
+      voted[square] = bestLabel;
+    }
+
+    return voted;
+  }
+}
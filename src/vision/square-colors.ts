@@ -0,0 +1,289 @@
+export interface SquareColorStats {
+  r: number;
+  g: number;
+  b: number;
+  // Typical RGB distance of an empty-square pixel from the mean color (grain, texture, noise).
+  spread: number;
+}
+
+// Background colors of one particular board. Light squares are those where rank + file is
+// even counting from a8, which holds whichever way up the board is shown.
+export interface SquareColorModel {
+  light: SquareColorStats;
+  dark: SquareColorStats;
+}
+
+interface TileStats extends SquareColorStats {
+  square: number;
+}
+
+// Ignore the tile border, where grid lines, coordinates and neighbouring squares bleed in.
+const TILE_INSET = 0.15;
+const SAMPLES_PER_AXIS = 12;
+// Share of each color's tiles (the flattest ones) assumed empty when learning its color.
+const EMPTY_SAMPLE_FRACTION = 1 / 3;
+// Light and dark squares closer than this (RGB distance) are not a usable checkerboard.
+const MIN_SQUARE_CONTRAST = 18;
+// A pixel matches the square background within this many spreads (and never under MIN_TOLERANCE).
+const SPREAD_TOLERANCE = 3;
+const MIN_TOLERANCE = 24;
+// Tiles whose own texture stays within this many learned spreads are flat: empty, or tinted
+// by a highlight rather than covered by a piece.
+const FLAT_SPREAD_RATIO = 1.6;
+// Foreground masks keep most of the tile so tall pieces are not clipped.
+const MASK_BORDER = 0.04;
+// Highlights are read from a ring this far inside the tile edge, skipping the corners where
+// coordinates are drawn; pieces rarely reach it.
+const RING_INSET = 0.08;
+const RING_SAMPLES_PER_SIDE = 8;
+// Share of ring samples that must agree on the tint, so an arrow or piece crossing the ring
+// does not count as a highlight.
+const RING_AGREEMENT = 0.75;
+// More tinted squares than this means the learned colors no longer fit (lighting, theme change).
+const MAX_HIGHLIGHTS = 4;
+// Learned colors within this RGB distance of the previous ones describe the same board.
+const SAME_COLOR_DISTANCE = 6;
+
+// Learns the light and dark square colors from a top-down board image. The flattest tiles of
+// each color are taken to be empty, which holds even in the starting position (half occupied).
+export function learnSquareColors(boardImage: ImageData): SquareColorModel | null {
+  const tiles = measureTiles(boardImage);
+  const light = averageFlattest(tiles.filter((tile) => isLightSquare(tile.square)));
+  const dark = averageFlattest(tiles.filter((tile) => !isLightSquare(tile.square)));
+
+  if (colorDistance(light, dark.r, dark.g, dark.b) < MIN_SQUARE_CONTRAST) {
+    return null;
+  }
+
+  return { light, dark };
+}
+
+// Whether two learned models describe the same square colors, up to frame-to-frame noise.
+export function sameSquareColors(a: SquareColorModel | null, b: SquareColorModel | null): boolean {
+  if (!a || !b) {
+    return a === b;
+  }
+
+  return (
+    colorDistance(a.light, b.light.r, b.light.g, b.light.b) <= SAME_COLOR_DISTANCE &&
+    colorDistance(a.dark, b.dark.r, b.dark.g, b.dark.b) <= SAME_COLOR_DISTANCE
+  );
+}
+
+// Per square (a8..h1, row-major) fraction 0..1 of the tile that does not look like its learned
+// empty background.
+export function measureOccupancy(boardImage: ImageData, model: SquareColorModel): Float32Array {
+  const occupancy = new Float32Array(64);
+
+  for (const tile of measureTiles(boardImage)) {
+    const background = isLightSquare(tile.square) ? model.light : model.dark;
+    if (tile.spread <= background.spread * FLAT_SPREAD_RATIO + 2) {
+      continue;
+    }
+
+    const tolerance = Math.max(MIN_TOLERANCE, background.spread * SPREAD_TOLERANCE);
+    let differing = 0;
+    let total = 0;
+    forEachTileSample(boardImage, tile.square, (r, g, b) => {
+      if (colorDistance(background, r, g, b) > tolerance) {
+        differing++;
+      }
+      total++;
+    });
+
+    occupancy[tile.square] = total > 0 ? differing / total : 0;
+  }
+
+  return occupancy;
+}
+
+// Squares (a8..h1 as shown) whose background is evenly tinted away from the learned square color,
+// the way GUIs mark the last move's from and to squares. Empty when nothing, or implausibly
+// much, is tinted.
+export function detectHighlightedSquares(boardImage: ImageData, model: SquareColorModel): number[] {
+  const highlighted: number[] = [];
+
+  for (let square = 0; square < 64; square++) {
+    const background = isLightSquare(square) ? model.light : model.dark;
+    const tolerance = Math.max(MIN_TOLERANCE, background.spread * SPREAD_TOLERANCE);
+    const ring = sampleRing(boardImage, square);
+    const tint = medianColor(ring);
+    if (colorDistance(background, tint.r, tint.g, tint.b) <= tolerance) {
+      continue;
+    }
+
+    const agreeing = ring.filter(([r, g, b]) => colorDistance(tint, r, g, b) <= tolerance).length;
+    if (agreeing >= ring.length * RING_AGREEMENT) {
+      highlighted.push(square);
+    }
+  }
+
+  return highlighted.length <= MAX_HIGHLIGHTS ? highlighted : [];
+}
+
+// size x size samples of one tile, covering all of it apart from a thin border.
+export interface TileForeground {
+  size: number;
+  // Fraction of the tile's width and height that the samples cover.
+  span: number;
+  // 1 where the pixel differs from the square's learned background.
+  mask: Uint8Array;
+  // 0..255
+  luminance: Float32Array;
+}
+
+export function sampleForeground(
+  boardImage: ImageData,
+  model: SquareColorModel,
+  square: number,
+  size: number,
+): TileForeground {
+  const background = isLightSquare(square) ? model.light : model.dark;
+  const tolerance = Math.max(MIN_TOLERANCE, background.spread * SPREAD_TOLERANCE);
+  const mask = new Uint8Array(size * size);
+  const luminance = new Float32Array(size * size);
+  const tileWidth = boardImage.width / 8;
+  const tileHeight = boardImage.height / 8;
+  const border = MASK_BORDER;
+  const left = (square % 8) * tileWidth + tileWidth * border;
+  const top = Math.floor(square / 8) * tileHeight + tileHeight * border;
+  const stepX = (tileWidth * (1 - 2 * border)) / size;
+  const stepY = (tileHeight * (1 - 2 * border)) / size;
+  const src = boardImage.data;
+
+  for (let my = 0; my < size; my++) {
+    const y = Math.min(boardImage.height - 1, Math.floor(top + (my + 0.5) * stepY));
+    for (let mx = 0; mx < size; mx++) {
+      const x = Math.min(boardImage.width - 1, Math.floor(left + (mx + 0.5) * stepX));
+      const idx = (y * boardImage.width + x) * 4;
+      const r = src[idx];
+      const g = src[idx + 1];
+      const b = src[idx + 2];
+      mask[my * size + mx] = colorDistance(background, r, g, b) > tolerance ? 1 : 0;
+      luminance[my * size + mx] = 0.299 * r + 0.587 * g + 0.114 * b;
+    }
+  }
+
+  return { size, span: 1 - 2 * border, mask, luminance };
+}
+
+export function squareLuminance(color: SquareColorStats): number {
+  return 0.299 * color.r + 0.587 * color.g + 0.114 * color.b;
+}
+
+export function isLightSquare(square: number): boolean {
+  return (Math.floor(square / 8) + (square % 8)) % 2 === 0;
+}
+
+function measureTiles(boardImage: ImageData): TileStats[] {
+  const tiles: TileStats[] = [];
+
+  for (let square = 0; square < 64; square++) {
+    let r = 0;
+    let g = 0;
+    let b = 0;
+    let count = 0;
+    forEachTileSample(boardImage, square, (sr, sg, sb) => {
+      r += sr;
+      g += sg;
+      b += sb;
+      count++;
+    });
+
+    const mean = { r: r / count, g: g / count, b: b / count, spread: 0 };
+    let spread = 0;
+    forEachTileSample(boardImage, square, (sr, sg, sb) => {
+      spread += colorDistance(mean, sr, sg, sb);
+    });
+
+    tiles.push({ ...mean, spread: spread / count, square });
+  }
+
+  return tiles;
+}
+
+function averageFlattest(tiles: TileStats[]): SquareColorStats {
+  const flattest = tiles
+    .slice()
+    .sort((a, b) => a.spread - b.spread)
+    .slice(0, Math.max(1, Math.ceil(tiles.length * EMPTY_SAMPLE_FRACTION)));
+
+  const sum = flattest.reduce(
+    (acc, tile) => ({
+      r: acc.r + tile.r,
+      g: acc.g + tile.g,
+      b: acc.b + tile.b,
+      spread: acc.spread + tile.spread,
+    }),
+    { r: 0, g: 0, b: 0, spread: 0 },
+  );
+
+  return {
+    r: sum.r / flattest.length,
+    g: sum.g / flattest.length,
+    b: sum.b / flattest.length,
+    spread: sum.spread / flattest.length,
+  };
+}
+
+function forEachTileSample(
+  boardImage: ImageData,
+  square: number,
+  visit: (r: number, g: number, b: number) => void,
+): void {
+  const tileWidth = boardImage.width / 8;
+  const tileHeight = boardImage.height / 8;
+  const left = (square % 8) * tileWidth + tileWidth * TILE_INSET;
+  const top = Math.floor(square / 8) * tileHeight + tileHeight * TILE_INSET;
+  const stepX = (tileWidth * (1 - 2 * TILE_INSET)) / SAMPLES_PER_AXIS;
+  const stepY = (tileHeight * (1 - 2 * TILE_INSET)) / SAMPLES_PER_AXIS;
+  const src = boardImage.data;
+
+  for (let sy = 0; sy < SAMPLES_PER_AXIS; sy++) {
+    const y = Math.min(boardImage.height - 1, Math.floor(top + (sy + 0.5) * stepY));
+    for (let sx = 0; sx < SAMPLES_PER_AXIS; sx++) {
+      const x = Math.min(boardImage.width - 1, Math.floor(left + (sx + 0.5) * stepX));
+      const idx = (y * boardImage.width + x) * 4;
+      visit(src[idx], src[idx + 1], src[idx + 2]);
+    }
+  }
+}
+
+function sampleRing(boardImage: ImageData, square: number): Array<[number, number, number]> {
+  const tileWidth = boardImage.width / 8;
+  const tileHeight = boardImage.height / 8;
+  const left = (square % 8) * tileWidth;
+  const top = Math.floor(square / 8) * tileHeight;
+  const src = boardImage.data;
+  const samples: Array<[number, number, number]> = [];
+
+  const visit = (fx: number, fy: number) => {
+    const x = Math.min(boardImage.width - 1, Math.floor(left + fx * tileWidth));
+    const y = Math.min(boardImage.height - 1, Math.floor(top + fy * tileHeight));
+    const idx = (y * boardImage.width + x) * 4;
+    samples.push([src[idx], src[idx + 1], src[idx + 2]]);
+  };
+
+  for (let i = 0; i < RING_SAMPLES_PER_SIDE; i++) {
+    // Middle 60% of each side.
+    const along = 0.2 + (0.6 * (i + 0.5)) / RING_SAMPLES_PER_SIDE;
+    visit(along, RING_INSET);
+    visit(along, 1 - RING_INSET);
+    visit(RING_INSET, along);
+    visit(1 - RING_INSET, along);
+  }
+
+  return samples;
+}
+
+function medianColor(samples: Array<[number, number, number]>): SquareColorStats {
+  const median = (channel: number) => {
+    const values = samples.map((sample) => sample[channel]).sort((a, b) => a - b);
+    return values[Math.floor(values.length / 2)];
+  };
+  return { r: median(0), g: median(1), b: median(2), spread: 0 };
+}
+
+function colorDistance(color: SquareColorStats, r: number, g: number, b: number): number {
+  return Math.hypot(color.r - r, color.g - g, color.b - b);
+}
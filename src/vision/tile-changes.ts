@@ -0,0 +1,101 @@
+import { ALL_SQUARES } from './fen-utils';
+
+export interface TileChangeTrackerOptions {
+  // Each square's fingerprint is a grid x grid array of mean colors.
+  grid: number;
+  // Samples per fingerprint cell along each axis.
+  samplesPerCell: number;
+  // A square counts as changed once any channel of any cell moves this much (0..1). Low enough
+  // for a white piece landing on a light square.
+  threshold: number;
+}
+
+const DEFAULT_OPTIONS: TileChangeTrackerOptions = {
+  grid: 4,
+  samplesPerCell: 4,
+  threshold: 0.04,
+};
+
+// Cells keep off the square's edges, where a slightly shifted crop shows the neighbors.
+const EDGE_INSET = 0.08;
+
+// Tells which squares of the board image changed since they were last read. Each square is
+// compared against its fingerprint from the frame it was last reported changed, so slow fades
+// still add up to a change instead of slipping under the threshold frame by frame.
+export class TileChangeTracker {
+  private readonly options: TileChangeTrackerOptions;
+  private reference: Float32Array | null = null;
+
+  constructor(options: Partial<TileChangeTrackerOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  // Squares (a8..h1 as shown) that changed; all 64 when there is nothing to compare against.
+  // The returned squares are taken as read again.
+  changedSquares(boardImage: ImageData): number[] {
+    const current = this.fingerprint(boardImage);
+    const valuesPerSquare = this.options.grid * this.options.grid * 3;
+
+    if (!this.reference) {
+      this.reference = current;
+      return [...ALL_SQUARES];
+    }
+
+    const changed: number[] = [];
+    for (let square = 0; square < 64; square++) {
+      const offset = square * valuesPerSquare;
+      let maxDifference = 0;
+      for (let i = offset; i < offset + valuesPerSquare; i++) {
+        maxDifference = Math.max(maxDifference, Math.abs(current[i] - this.reference[i]));
+      }
+
+      if (maxDifference > this.options.threshold) {
+        changed.push(square);
+        this.reference.set(current.subarray(offset, offset + valuesPerSquare), offset);
+      }
+    }
+
+    return changed;
+  }
+
+  reset(): void {
+    this.reference = null;
+  }
+
+  private fingerprint(boardImage: ImageData): Float32Array {
+    const { grid, samplesPerCell } = this.options;
+    const samples = grid * samplesPerCell;
+    const fingerprint = new Float32Array(64 * grid * grid * 3);
+    const tileWidth = boardImage.width / 8;
+    const tileHeight = boardImage.height / 8;
+    const src = boardImage.data;
+
+    for (let square = 0; square < 64; square++) {
+      const left = (square % 8) * tileWidth + tileWidth * EDGE_INSET;
+      const top = Math.floor(square / 8) * tileHeight + tileHeight * EDGE_INSET;
+      const stepX = (tileWidth * (1 - 2 * EDGE_INSET)) / samples;
+      const stepY = (tileHeight * (1 - 2 * EDGE_INSET)) / samples;
+      const offset = square * grid * grid * 3;
+
+      for (let sy = 0; sy < samples; sy++) {
+        const y = Math.min(boardImage.height - 1, Math.floor(top + (sy + 0.5) * stepY));
+        const cellRow = Math.floor(sy / samplesPerCell) * grid;
+        for (let sx = 0; sx < samples; sx++) {
+          const x = Math.min(boardImage.width - 1, Math.floor(left + (sx + 0.5) * stepX));
+          const idx = (y * boardImage.width + x) * 4;
+          const cell = offset + (cellRow + Math.floor(sx / samplesPerCell)) * 3;
+          fingerprint[cell] += src[idx];
+          fingerprint[cell + 1] += src[idx + 1];
+          fingerprint[cell + 2] += src[idx + 2];
+        }
+      }
+    }
+
+    const perCell = samplesPerCell * samplesPerCell * 255;
+    for (let i = 0; i < fingerprint.length; i++) {
+      fingerprint[i] /= perCell;
+    }
+
+    return fingerprint;
+  }
+}
@@ -1,17 +1,51 @@
 /// <reference lib="webworker" />
 
-import { BoardDetector, type BoardRegion } from './board-detector';
-import { piecesToFen } from './fen-utils';
+import type { BoardAnnotation } from './annotations';
+import {
+  BoardDetector,
+  detectionFromCorners,
+  rectToCorners,
+  regionIoU,
+  type BoardCorners,
+  type BoardDetection,
+  type BoardRegion,
+  type Point,
+} from './board-detector';
+import { detectLabelPerspective } from './coordinate-labels';
+import { boardPart, piecesToFen, START_BOARD_FEN, type BoardPerspective } from './fen-utils';
+import { computeHomography, warpQuadToSquare } from './homography';
+import type { BackendBenchmark, InferenceBackend } from './inference-backends';
 import { PieceClassifier } from './piece-classifier';
+import { PieceTemplates, type PieceTemplateData } from './piece-templates';
+import { TileChangeTracker } from './tile-changes';
 
 interface ProcessMessage {
   type: 'process';
   requestId: number;
-  frame: ImageData;
+  // The `source` part of the video, possibly scaled down; see FrameCapture.capture.
+  frame: ImageBitmap;
+  source: BoardRegion;
+  videoWidth: number;
+  videoHeight: number;
+  videoTime: number;
   now: number;
   boardRefreshMs: number;
   confidenceThreshold: number;
   forceFlip: boolean;
+  perspective: boolean;
+  // Hand-drawn board as fractions of the video; replaces detection while set.
+  manualCorners: BoardCorners | null;
+}
+
+// A frame's pixels and where they sit in the video: video point p shows at
+// ((p.x - source.x) * scaleX, (p.y - source.y) * scaleY).
+interface FrameView {
+  image: ImageData;
+  source: BoardRegion;
+  scaleX: number;
+  scaleY: number;
+  // The image shows the whole video rather than a crop around the board.
+  whole: boolean;
 }
 
 interface CancelMessage {
@@ -19,23 +53,75 @@ interface CancelMessage {
   requestId: number;
 }
 
+interface SelectBoardMessage {
+  type: 'select-board';
+  index: number;
+}
+
+interface SetTemplatesMessage {
+  type: 'set-templates';
+  templates: PieceTemplateData | null;
+}
+
+interface SetModelMessage {
+  type: 'set-model';
+  // Registry id to pin, or null for auto-selection.
+  modelId: string | null;
+}
+
+interface SetBackendMessage {
+  type: 'set-backend';
+  // Execution provider to pin, or null to benchmark and use the fastest.
+  backend: InferenceBackend | null;
+}
+
 interface DisposeMessage {
   type: 'dispose';
 }
 
-type WorkerMessage = ProcessMessage | CancelMessage | DisposeMessage;
+type WorkerMessage =
+  | ProcessMessage
+  | CancelMessage
+  | SelectBoardMessage
+  | SetTemplatesMessage
+  | SetModelMessage
+  | SetBackendMessage
+  | DisposeMessage;
 
 interface ProcessResult {
   type: 'result';
   requestId: number;
   fen: string;
+  pieces: string[];
+  confidences: number[];
+  // Tinted last-move squares in board coordinates, e.g. ['e2', 'e4'].
+  highlightedSquares: string[];
+  annotations: BoardAnnotation[];
   boardRegion: BoardRegion;
+  boardCandidates: BoardRegion[];
+  trackedBoardIndex: number;
   confidenceAverage: number;
   lowConfidenceSquares: number;
   detectorMs: number;
+  boardFitScore: number;
   classifierMs: number;
+  // Squares whose pixels changed and were read again; the rest reused their previous labels.
+  reclassifiedSquares: number;
   processingMs: number;
   wasFlipped: boolean;
+  // The tracked board was not found where it was; a whole-frame search should follow.
+  trackingLost: boolean;
+  // Registry id of the piece model in use; null while the heuristic fallback reads the board.
+  classifierModel: string | null;
+  // Execution provider running the model, and the timings it was chosen on.
+  inferenceBackend: InferenceBackend | null;
+  backendBenchmarks: BackendBenchmark[];
+  videoTime: number;
+}
+
+interface TemplatesResult {
+  type: 'templates';
+  templates: PieceTemplateData;
 }
 
 interface ErrorResult {
@@ -44,13 +130,104 @@ interface ErrorResult {
   message: string;
 }
 
+// The frame was read but no board was found in it.
+interface NoBoardResult {
+  type: 'no-board';
+  requestId: number;
+}
+
+const BOARD_WARP_MAX_SIZE = 512;
+// A refreshed candidate continues the tracked board when it overlaps it at least this much.
+const BOARD_LOCK_MIN_IOU = 0.3;
+// How long the tracked board may go missing before falling back to the primary candidate.
+const BOARD_LOCK_TIMEOUT_MS = 5000;
+// Square colors are learned again once the tracked board moves further than this overlap.
+const RECALIBRATE_MIN_IOU = 0.8;
+// A board whose square colors could not be learned is tried again after this long, not every frame.
+const CALIBRATION_RETRY_MS = 2000;
+// A start position is trusted as a template source only when classified at least this confidently.
+const HARVEST_MIN_CONFIDENCE = 0.8;
+
+const UNIT_SQUARE = rectToCorners({ x: 0, y: 0, width: 1, height: 1 });
+
 const boardDetector = new BoardDetector();
 const pieceClassifier = new PieceClassifier();
+const tileChanges = new TileChangeTracker();
 
-let cachedBoardRegion: BoardRegion | null = null;
+let cachedDetection: BoardDetection | null = null;
+let boardCandidates: BoardDetection[] = [];
+let boardLockLostAt: number | null = null;
 let lastBoardDetectionAt = 0;
 let canceledRequestId = 0;
 let previousPieces: string[] | null = null;
+let manualDetection: BoardDetection | null = null;
+let calibratedRegion: BoardRegion | null = null;
+let calibrationFailedAt: number | null = null;
+let labelPerspective: BoardPerspective | null = null;
+let labelRegion: BoardRegion | null = null;
+let frameContext: OffscreenCanvasRenderingContext2D | null = null;
+
+// Detections are kept in video pixels so they stay valid whatever crop and scale the next
+// frame arrives in.
+function readFrame(message: ProcessMessage): FrameView {
+  const { frame, source } = message;
+  if (!frameContext) {
+    frameContext = new OffscreenCanvas(frame.width, frame.height).getContext('2d', { willReadFrequently: true });
+    if (!frameContext) {
+      throw new Error('Failed to create 2D context for OffscreenCanvas');
+    }
+  }
+
+  const canvas = frameContext.canvas;
+  if (canvas.width !== frame.width || canvas.height !== frame.height) {
+    canvas.width = frame.width;
+    canvas.height = frame.height;
+  }
+  frameContext.drawImage(frame, 0, 0);
+  frame.close();
+
+  return {
+    image: frameContext.getImageData(0, 0, canvas.width, canvas.height),
+    source,
+    scaleX: canvas.width / source.width,
+    scaleY: canvas.height / source.height,
+    whole:
+      source.x === 0 && source.y === 0 && source.width === message.videoWidth && source.height === message.videoHeight,
+  };
+}
+
+function mapDetection(detection: BoardDetection, map: (point: Point) => Point): BoardDetection {
+  const { region } = detection;
+  const topLeft = map({ x: region.x, y: region.y });
+  const bottomRight = map({ x: region.x + region.width, y: region.y + region.height });
+  const corners = detection.corners.map(map) as BoardCorners;
+
+  return {
+    ...detection,
+    region: {
+      x: Math.round(topLeft.x),
+      y: Math.round(topLeft.y),
+      width: Math.round(bottomRight.x - topLeft.x),
+      height: Math.round(bottomRight.y - topLeft.y),
+    },
+    corners,
+    homography: detection.homography ? computeHomography(UNIT_SQUARE, corners) : null,
+  };
+}
+
+function toFramePixels(detection: BoardDetection, view: FrameView): BoardDetection {
+  return mapDetection(detection, (point) => ({
+    x: (point.x - view.source.x) * view.scaleX,
+    y: (point.y - view.source.y) * view.scaleY,
+  }));
+}
+
+function toVideoPixels(detection: BoardDetection, view: FrameView): BoardDetection {
+  return mapDetection(detection, (point) => ({
+    x: point.x / view.scaleX + view.source.x,
+    y: point.y / view.scaleY + view.source.y,
+  }));
+}
 
 function cropImageData(imageData: ImageData, rect: BoardRegion): ImageData {
   const x = Math.max(0, Math.floor(rect.x));
@@ -73,12 +250,190 @@ function cropImageData(imageData: ImageData, rect: BoardRegion): ImageData {
   return output;
 }
 
+// Angled boards are warped to a top-down square; axis-aligned ones are cropped directly.
+function extractBoardImage(frame: ImageData, detection: BoardDetection): ImageData {
+  if (detection.homography) {
+    const side = Math.min(BOARD_WARP_MAX_SIZE, Math.max(detection.region.width, detection.region.height));
+    const warped = warpQuadToSquare(frame, detection.corners, Math.max(64, Math.round(side)));
+    if (warped) {
+      return warped;
+    }
+  }
+
+  return cropImageData(frame, detection.region);
+}
+
+// Follow the board tracked so far rather than whichever candidate ranks first in this frame,
+// so a second board on screen cannot steal the lock.
+function pickTrackedBoard(candidates: BoardDetection[], now: number): BoardDetection | null {
+  if (!cachedDetection) {
+    return candidates[0] ?? null;
+  }
+
+  let best: BoardDetection | null = null;
+  let bestIoU = BOARD_LOCK_MIN_IOU;
+  for (const candidate of candidates) {
+    const overlap = regionIoU(candidate.region, cachedDetection.region);
+    if (overlap >= bestIoU) {
+      best = candidate;
+      bestIoU = overlap;
+    }
+  }
+
+  if (best) {
+    boardLockLostAt = null;
+    return best;
+  }
+
+  boardLockLostAt ??= now;
+  if (now - boardLockLostAt < BOARD_LOCK_TIMEOUT_MS) {
+    return cachedDetection;
+  }
+
+  boardLockLostAt = null;
+  forgetTrackedBoard();
+  return candidates[0] ?? null;
+}
+
+function selectBoard(index: number): void {
+  const selected = boardCandidates[index];
+  if (!selected) {
+    return;
+  }
+
+  cachedDetection = selected;
+  boardLockLostAt = null;
+  forgetTrackedBoard();
+}
+
+// Another board is tracked from now on. Its squares and pieces may look nothing like the previous
+// board's, so the previous reads, the templates cut from its pieces and the model auto-selected
+// for it are dropped.
+function forgetTrackedBoard(): void {
+  previousPieces = null;
+  tileChanges.reset();
+  pieceClassifier.setTemplates(null);
+  pieceClassifier.forgetBoard();
+}
+
+function applyManualRegion(message: ProcessMessage, corners: BoardCorners): void {
+  const scaled = corners.map((point) => ({
+    x: point.x * message.videoWidth,
+    y: point.y * message.videoHeight,
+  })) as BoardCorners;
+  if (!manualDetection || !sameCorners(manualDetection.corners, scaled)) {
+    manualDetection = detectionFromCorners(scaled);
+    previousPieces = null;
+    tileChanges.reset();
+  }
+
+  cachedDetection = manualDetection;
+  boardCandidates = [manualDetection];
+  boardLockLostAt = null;
+}
+
+function sameCorners(a: BoardCorners, b: BoardCorners): boolean {
+  return a.every((point, i) => point.x === b[i].x && point.y === b[i].y);
+}
+
+function calibrateSquareColors(boardImage: ImageData, region: BoardRegion, now: number): void {
+  if (
+    calibratedRegion &&
+    regionIoU(calibratedRegion, region) >= RECALIBRATE_MIN_IOU &&
+    (calibrationFailedAt === null || now - calibrationFailedAt < CALIBRATION_RETRY_MS)
+  ) {
+    return;
+  }
+
+  calibratedRegion = region;
+  calibrationFailedAt = pieceClassifier.calibrate(boardImage) ? null : now;
+}
+
+// Orientation from the board's coordinate labels. Read on the frame for cropped boards so labels
+// drawn beside the board count too; warped boards only have their inside labels. A board whose
+// labels are briefly hidden (a piece on a corner, a highlight) keeps its last reading.
+function readLabelPerspective(
+  view: FrameView,
+  boardImage: ImageData,
+  detection: BoardDetection,
+): BoardPerspective | null {
+  const perspective = detection.homography
+    ? detectLabelPerspective(boardImage, { x: 0, y: 0, width: boardImage.width, height: boardImage.height })
+    : detectLabelPerspective(view.image, toFramePixels(detection, view).region);
+
+  if (perspective) {
+    labelPerspective = perspective;
+    labelRegion = detection.region;
+  } else if (!labelRegion || regionIoU(labelRegion, detection.region) < RECALIBRATE_MIN_IOU) {
+    labelPerspective = null;
+    labelRegion = null;
+  }
+
+  return labelPerspective;
+}
+
+// Cut piece templates from the first confident starting position and hand them to the page
+// so it can cache them for this video.
+function harvestTemplates(boardImage: ImageData, fen: string, averageConfidence: number, flipped: boolean): void {
+  if (
+    pieceClassifier.hasTemplates() ||
+    boardPart(fen) !== START_BOARD_FEN ||
+    averageConfidence < HARVEST_MIN_CONFIDENCE
+  ) {
+    return;
+  }
+
+  const templates = PieceTemplates.harvest(boardImage, flipped);
+  if (!templates) {
+    return;
+  }
+
+  pieceClassifier.setTemplates(templates);
+  const response: TemplatesResult = { type: 'templates', templates: templates.serialize() };
+  self.postMessage(response);
+}
+
+function setTemplates(data: PieceTemplateData | null): void {
+  try {
+    pieceClassifier.setTemplates(data ? PieceTemplates.deserialize(data) : null);
+  } catch (error) {
+    console.warn('[VisionWorker] Ignoring unreadable piece templates', error);
+    pieceClassifier.setTemplates(null);
+  }
+}
+
 function isCanceled(requestId: number): boolean {
   return requestId <= canceledRequestId;
 }
 
+// Whole frames replace the candidate list. A crop only shows the tracked board, so only its
+// entry is refreshed and boards elsewhere are kept from the last whole-frame search.
+async function detectBoards(view: FrameView, message: ProcessMessage): Promise<void> {
+  const found = await boardDetector.detectCandidates(view.image, { perspective: message.perspective });
+  const candidates = found.map((candidate) => toVideoPixels(candidate, view));
+
+  if (view.whole) {
+    boardCandidates = candidates;
+    cachedDetection = pickTrackedBoard(boardCandidates, message.now);
+    return;
+  }
+
+  const previous = cachedDetection;
+  cachedDetection = pickTrackedBoard(candidates, message.now);
+  if (!cachedDetection || cachedDetection === previous) {
+    return;
+  }
+
+  const index = previous ? boardCandidates.indexOf(previous) : -1;
+  boardCandidates =
+    index >= 0
+      ? boardCandidates.map((candidate, i) => (i === index ? (cachedDetection as BoardDetection) : candidate))
+      : [cachedDetection];
+}
+
 async function handleProcess(message: ProcessMessage): Promise<void> {
   if (isCanceled(message.requestId)) {
+    message.frame.close();
     return;
   }
 
@@ -87,22 +442,36 @@ async function handleProcess(message: ProcessMessage): Promise<void> {
   let classifierMs = 0;
 
   try {
-    if (!cachedBoardRegion || message.now - lastBoardDetectionAt >= message.boardRefreshMs) {
+    const view = readFrame(message);
+
+    if (message.manualCorners) {
+      applyManualRegion(message, message.manualCorners);
+    } else if (view.whole || !cachedDetection || message.now - lastBoardDetectionAt >= message.boardRefreshMs) {
+      manualDetection = null;
       const detectStart = performance.now();
-      cachedBoardRegion = await boardDetector.detect(message.frame);
+      await detectBoards(view, message);
       detectorMs = performance.now() - detectStart;
       lastBoardDetectionAt = message.now;
     }
 
-    if (!cachedBoardRegion || isCanceled(message.requestId)) {
+    if (isCanceled(message.requestId)) {
+      return;
+    }
+
+    if (!cachedDetection) {
+      const response: NoBoardResult = { type: 'no-board', requestId: message.requestId };
+      self.postMessage(response);
       return;
     }
 
-    const boardImage = cropImageData(message.frame, cachedBoardRegion);
+    const boardImage = extractBoardImage(view.image, toFramePixels(cachedDetection, view));
+    calibrateSquareColors(boardImage, cachedDetection.region, message.now);
 
     const classifyStart = performance.now();
     const classification = await pieceClassifier.classifyDetailed(boardImage, {
       forceFlip: message.forceFlip,
+      perspective: readLabelPerspective(view, boardImage, cachedDetection) ?? undefined,
+      changedSquares: tileChanges.changedSquares(boardImage),
     });
     classifierMs = performance.now() - classifyStart;
 
@@ -110,6 +479,8 @@ async function handleProcess(message: ProcessMessage): Promise<void> {
       return;
     }
 
+    harvestTemplates(boardImage, classification.fen, classification.averageConfidence, classification.wasFlipped);
+
     const pieces = classification.pieces.slice();
     let lowConfidenceSquares = 0;
 
@@ -123,24 +494,40 @@ async function handleProcess(message: ProcessMessage): Promise<void> {
     }
 
     previousPieces = pieces;
+    const backendReport = pieceClassifier.getBackendReport();
 
     const response: ProcessResult = {
       type: 'result',
       requestId: message.requestId,
       fen: piecesToFen(pieces),
-      boardRegion: cachedBoardRegion,
+      pieces,
+      confidences: Array.from(classification.confidences),
+      highlightedSquares: classification.highlightedSquares,
+      annotations: classification.annotations,
+      boardRegion: cachedDetection.region,
+      boardCandidates: boardCandidates.map((candidate) => candidate.region),
+      trackedBoardIndex: boardCandidates.indexOf(cachedDetection),
       confidenceAverage: classification.averageConfidence,
       lowConfidenceSquares,
       detectorMs,
+      boardFitScore: cachedDetection.fitScore,
       classifierMs,
+      reclassifiedSquares: classification.reclassifiedSquares,
       processingMs: performance.now() - start,
       wasFlipped: classification.wasFlipped,
+      trackingLost: boardLockLostAt !== null,
+      classifierModel: classification.modelId,
+      inferenceBackend: backendReport.backend,
+      backendBenchmarks: backendReport.benchmarks,
+      videoTime: message.videoTime,
     };
 
     if (!isCanceled(message.requestId)) {
       self.postMessage(response);
     }
   } catch (error) {
+    // Squares taken as read may not have been.
+    tileChanges.reset();
     const response: ErrorResult = {
       type: 'error',
       requestId: message.requestId,
@@ -161,10 +548,37 @@ self.addEventListener('message', (event: MessageEvent<WorkerMessage>) => {
     return;
   }
 
+  if (message.type === 'select-board') {
+    selectBoard(message.index);
+    return;
+  }
+
+  if (message.type === 'set-templates') {
+    setTemplates(message.templates);
+    return;
+  }
+
+  if (message.type === 'set-model') {
+    pieceClassifier.pinModel(message.modelId);
+    return;
+  }
+
+  if (message.type === 'set-backend') {
+    void pieceClassifier.setBackend(message.backend);
+    return;
+  }
+
   if (message.type === 'dispose') {
     canceledRequestId = Number.MAX_SAFE_INTEGER;
-    cachedBoardRegion = null;
+    cachedDetection = null;
+    manualDetection = null;
+    calibratedRegion = null;
+    calibrationFailedAt = null;
+    labelPerspective = null;
+    labelRegion = null;
+    boardCandidates = [];
     previousPieces = null;
+    tileChanges.reset();
     void pieceClassifier.dispose();
     return;
   }
@@ -0,0 +1,150 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { afterAll, describe, expect, it } from 'vitest';
+import { BoardDetector, regionIoU, type BoardRegion } from '../../src/vision/board-detector';
+import { fenToPieces } from '../../src/vision/fen-utils';
+import { CLASSIFIER_MODELS } from '../../src/vision/model-registry';
+import { PieceClassifier, type PieceClassificationResult } from '../../src/vision/piece-classifier';
+import { createImageData, installImageData } from './image-data';
+import { decodePng } from './png';
+
+interface GoldenFixture {
+  file: string;
+  // A frame exported from a real video, or one drawn by render-fixtures.ts.
+  source: 'capture' | 'synthetic';
+  // Board part of the position, white at the bottom regardless of how the image shows it.
+  fen: string;
+  // Board rectangle in image pixels.
+  region: BoardRegion;
+  // Scores the vision stack reached when the fixture was added; falling below them fails.
+  // Square counts are out of 64 and compared exactly, so a single misread square fails.
+  baseline: { correctSquares: number; detectionIoU: number; modelCorrectSquares?: number };
+}
+
+interface GoldenResult {
+  fixture: string;
+  correctSquares: number;
+  detectionIoU: number;
+  detectorMs: number;
+  classifierMs: number;
+  reader: string;
+}
+
+// Room for harmless drift in the detected rectangle (rounding, a retuned constant).
+const IOU_TOLERANCE = 0.02;
+
+const HERE = dirname(fileURLToPath(import.meta.url));
+const FIXTURES_DIR = join(HERE, 'fixtures');
+// The ONNX models are not checked in; point CVO_MODELS_DIR at them or put them in models/.
+const MODELS_DIR = process.env.CVO_MODELS_DIR ?? resolve(HERE, '../../models');
+
+installImageData();
+
+const fixtures = JSON.parse(readFileSync(join(FIXTURES_DIR, 'golden.json'), 'utf8')) as GoldenFixture[];
+const models = CLASSIFIER_MODELS.map((model) => ({
+  ...model,
+  path: join(MODELS_DIR, model.path.replace(/^models\//, '')),
+})).filter((model) => existsSync(model.path));
+if (process.env.CVO_MODELS_DIR && models.length === 0) {
+  throw new Error(`CVO_MODELS_DIR is set but ${MODELS_DIR} holds none of the registry's model files`);
+}
+
+const detector = new BoardDetector();
+const heuristicClassifier = new PieceClassifier({ forceMock: true });
+const modelClassifier = new PieceClassifier({ models });
+const results: GoldenResult[] = [];
+
+function loadFixture(file: string): ImageData {
+  const png = decodePng(readFileSync(join(FIXTURES_DIR, file)));
+  return createImageData(png.data, png.width, png.height);
+}
+
+function crop(image: ImageData, rect: BoardRegion): ImageData {
+  const x = Math.round(rect.x);
+  const y = Math.round(rect.y);
+  const width = Math.round(rect.width);
+  const height = Math.round(rect.height);
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let row = 0; row < height; row++) {
+    const start = ((y + row) * image.width + x) * 4;
+    data.set(image.data.subarray(start, start + width * 4), row * width * 4);
+  }
+  return createImageData(data, width, height);
+}
+
+function correctSquares(fen: string, expectedFen: string): number {
+  const pieces = fenToPieces(fen);
+  const expected = fenToPieces(expectedFen);
+  return expected.filter((piece, square) => pieces[square] === piece).length;
+}
+
+async function measure(fixture: GoldenFixture, classifier: PieceClassifier): Promise<GoldenResult> {
+  const frame = loadFixture(fixture.file);
+
+  const detectStart = performance.now();
+  const region = await detector.detect(frame);
+  const detectorMs = performance.now() - detectStart;
+
+  // The detected board is classified, as in the vision worker, so a detection miss also shows
+  // up as misread squares.
+  let classification: PieceClassificationResult | null = null;
+  const classifyStart = performance.now();
+  if (region) {
+    const boardImage = crop(frame, region);
+    classifier.calibrate(boardImage);
+    classification = await classifier.classifyDetailed(boardImage);
+  }
+  const classifierMs = performance.now() - classifyStart;
+
+  const result: GoldenResult = {
+    fixture: fixture.file,
+    correctSquares: classification ? correctSquares(classification.fen, fixture.fen) : 0,
+    detectionIoU: region ? regionIoU(region, fixture.region) : 0,
+    detectorMs,
+    classifierMs,
+    reader: classification?.modelId ?? 'heuristic',
+  };
+  results.push(result);
+  return result;
+}
+
+describe('golden images', () => {
+  afterAll(() => {
+    console.table(
+      results.map((result) => ({
+        ...result,
+        correctSquares: `${result.correctSquares}/64`,
+        detectionIoU: result.detectionIoU.toFixed(3),
+        detectorMs: result.detectorMs.toFixed(1),
+        classifierMs: result.classifierMs.toFixed(1),
+      })),
+    );
+  });
+
+  const cases = fixtures.map((fixture) => [fixture.file, fixture] as const);
+
+  describe('heuristic reader', () => {
+    it.each(cases)('%s', async (_file, fixture) => {
+      const result = await measure(fixture, heuristicClassifier);
+      expect(result.detectionIoU).toBeGreaterThanOrEqual(fixture.baseline.detectionIoU - IOU_TOLERANCE);
+      expect(result.correctSquares).toBeGreaterThanOrEqual(fixture.baseline.correctSquares);
+    });
+  });
+
+  const modelSuite = models.length > 0 ? 'ONNX models' : `ONNX models (skipped: no model files in ${MODELS_DIR})`;
+  describe.skipIf(models.length === 0)(modelSuite, () => {
+    it.each(cases)('%s', async (_file, fixture) => {
+      const result = await measure(fixture, modelClassifier);
+      // A model that fails to load falls back to the heuristic; that must not pass as a model run.
+      expect(result.reader).not.toBe('heuristic');
+      if (fixture.baseline.modelCorrectSquares !== undefined) {
+        expect(result.correctSquares).toBeGreaterThanOrEqual(fixture.baseline.modelCorrectSquares);
+      }
+    });
+  });
+
+  if (!fixtures.some((fixture) => fixture.source === 'capture')) {
+    it.todo('real video capture fixtures (none checked in yet)');
+  }
+});
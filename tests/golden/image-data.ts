@@ -0,0 +1,30 @@
+// Node has no ImageData; the vision code only needs its width, height and RGBA data. Installed
+// globally so `new ImageData(...)` inside the vision modules works too.
+class ImageDataShim {
+  readonly width: number;
+  readonly height: number;
+  readonly data: Uint8ClampedArray;
+  readonly colorSpace = 'srgb';
+
+  constructor(dataOrWidth: Uint8ClampedArray | number, widthOrHeight: number, height?: number) {
+    if (typeof dataOrWidth === 'number') {
+      this.width = dataOrWidth;
+      this.height = widthOrHeight;
+      this.data = new Uint8ClampedArray(dataOrWidth * widthOrHeight * 4);
+    } else {
+      this.width = widthOrHeight;
+      this.height = height ?? dataOrWidth.length / 4 / widthOrHeight;
+      this.data = dataOrWidth;
+    }
+  }
+}
+
+export function installImageData(): void {
+  const scope = globalThis as { ImageData?: unknown };
+  scope.ImageData ??= ImageDataShim;
+}
+
+export function createImageData(data: Uint8ClampedArray<ArrayBuffer>, width: number, height: number): ImageData {
+  installImageData();
+  return new ImageData(data, width, height);
+}
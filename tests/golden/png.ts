@@ -0,0 +1,147 @@
+import { inflateSync } from 'node:zlib';
+
+export interface DecodedPng {
+  width: number;
+  height: number;
+  // RGBA, 4 bytes per pixel, row-major.
+  data: Uint8ClampedArray<ArrayBuffer>;
+}
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Bytes per pixel for the 8-bit color types: grayscale, RGB, palette, gray + alpha, RGBA.
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+// Minimal PNG decoder for the fixtures: 8-bit, non-interlaced images of any color type.
+// Screenshots and exported video frames are saved like that; anything else is rejected.
+export function decodePng(buffer: Uint8Array): DecodedPng {
+  if (!SIGNATURE.every((byte, i) => buffer[i] === byte)) {
+    throw new Error('Not a PNG file');
+  }
+
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  let width = 0;
+  let height = 0;
+  let colorType = 0;
+  let palette: Uint8Array | null = null;
+  let transparency: Uint8Array | null = null;
+  const compressed: Uint8Array[] = [];
+
+  for (let offset = SIGNATURE.length; offset < buffer.length; ) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...buffer.subarray(offset + 4, offset + 8));
+    const bodyStart = offset + 8;
+    const body = buffer.subarray(bodyStart, bodyStart + length);
+    offset += length + 12;
+
+    if (type === 'IHDR') {
+      width = view.getUint32(bodyStart);
+      height = view.getUint32(bodyStart + 4);
+      const bitDepth = body[8];
+      colorType = body[9];
+      const interlace = body[12];
+      if (bitDepth !== 8 || interlace !== 0 || CHANNELS[colorType] === undefined) {
+        throw new Error(`Unsupported PNG: bit depth ${bitDepth}, color type ${colorType}, interlace ${interlace}`);
+      }
+    } else if (type === 'PLTE') {
+      palette = body;
+    } else if (type === 'tRNS') {
+      transparency = body;
+    } else if (type === 'IDAT') {
+      compressed.push(body);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  const channels = CHANNELS[colorType];
+  const stride = width * channels;
+  const raw = inflateSync(Buffer.concat(compressed));
+  const pixels = unfilter(raw, height, stride, channels);
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  for (let i = 0; i < width * height; i++) {
+    const src = i * channels;
+    const dst = i * 4;
+    switch (colorType) {
+      case 0:
+      case 4:
+        data[dst] = data[dst + 1] = data[dst + 2] = pixels[src];
+        data[dst + 3] = colorType === 4 ? pixels[src + 1] : 255;
+        break;
+      case 2:
+      case 6:
+        data[dst] = pixels[src];
+        data[dst + 1] = pixels[src + 1];
+        data[dst + 2] = pixels[src + 2];
+        data[dst + 3] = colorType === 6 ? pixels[src + 3] : 255;
+        break;
+      case 3: {
+        const entry = pixels[src];
+        if (!palette || entry * 3 + 2 >= palette.length) {
+          throw new Error('PNG palette index out of range');
+        }
+        data[dst] = palette[entry * 3];
+        data[dst + 1] = palette[entry * 3 + 1];
+        data[dst + 2] = palette[entry * 3 + 2];
+        data[dst + 3] = transparency && entry < transparency.length ? transparency[entry] : 255;
+        break;
+      }
+    }
+  }
+
+  return { width, height, data };
+}
+
+// Undo the per-row filters (none, sub, up, average, Paeth).
+function unfilter(raw: Uint8Array, height: number, stride: number, bpp: number): Uint8Array {
+  const out = new Uint8Array(height * stride);
+
+  for (let row = 0; row < height; row++) {
+    const filter = raw[row * (stride + 1)];
+    const src = row * (stride + 1) + 1;
+    const dst = row * stride;
+    const prev = dst - stride;
+
+    for (let i = 0; i < stride; i++) {
+      const left = i >= bpp ? out[dst + i - bpp] : 0;
+      const up = row > 0 ? out[prev + i] : 0;
+      const upLeft = row > 0 && i >= bpp ? out[prev + i - bpp] : 0;
+      let predictor = 0;
+
+      switch (filter) {
+        case 0:
+          break;
+        case 1:
+          predictor = left;
+          break;
+        case 2:
+          predictor = up;
+          break;
+        case 3:
+          predictor = (left + up) >> 1;
+          break;
+        case 4:
+          predictor = paeth(left, up, upLeft);
+          break;
+        default:
+          throw new Error(`Unknown PNG filter ${filter}`);
+      }
+
+      out[dst + i] = (raw[src + i] + predictor) & 0xff;
+    }
+  }
+
+  return out;
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const toLeft = Math.abs(estimate - left);
+  const toUp = Math.abs(estimate - up);
+  const toUpLeft = Math.abs(estimate - upLeft);
+  if (toLeft <= toUp && toLeft <= toUpLeft) {
+    return left;
+  }
+  return toUp <= toUpLeft ? up : upLeft;
+}
@@ -0,0 +1,87 @@
+// Renders the synthetic fixtures in fixtures/ with the synthetic board generator. Each fixture
+// has a fixed seed and fixed board choices, so rerunning it reproduces the checked-in PNGs:
+//
+//   npx vite-node --root tests/golden tests/golden/render-fixtures.ts
+//
+// Highlights, arrows, noise and compression still come from the seed, as in generated samples.
+import { writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { encodePng } from '../../tools/synthetic-boards/png';
+import { Random } from '../../tools/synthetic-boards/random';
+import { renderSample, type RenderOptions } from '../../tools/synthetic-boards/renderer';
+
+interface FixtureSpec {
+  file: string;
+  seed: number;
+  fen: string;
+  options: RenderOptions;
+}
+
+const FIXTURES: readonly FixtureSpec[] = [
+  {
+    file: 'synthetic-start-green.png',
+    seed: 1,
+    fen: 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR',
+    options: {
+      frameWidth: 960,
+      frameHeight: 540,
+      theme: 'green',
+      pieceSet: 'staunton',
+      orientation: 'white',
+      coordinates: 'inside',
+      board: { x: 200, y: 40, width: 456, height: 456 },
+    },
+  },
+  {
+    file: 'synthetic-middlegame-brown.png',
+    seed: 10,
+    fen: 'r1bq1rk1/pp2bppp/2n1pn2/3p4/2PP4/2N2N2/PP2BPPP/R2QKB1R',
+    options: {
+      frameWidth: 960,
+      frameHeight: 540,
+      theme: 'brown',
+      pieceSet: 'geometric',
+      orientation: 'white',
+      coordinates: 'outside',
+      board: { x: 96, y: 104, width: 360, height: 360 },
+    },
+  },
+  {
+    file: 'synthetic-black-bottom-blue.png',
+    seed: 3,
+    fen: 'r2q1rk1/1b2bppp/p2p1n2/1p2p3/4P3/1BN2N1P/PPP2PP1/R1BQR1K1',
+    options: {
+      frameWidth: 960,
+      frameHeight: 540,
+      theme: 'blue',
+      pieceSet: 'staunton',
+      orientation: 'black',
+      coordinates: 'inside',
+      board: { x: 300, y: 70, width: 400, height: 400 },
+    },
+  },
+  {
+    file: 'synthetic-endgame-small.png',
+    seed: 4,
+    fen: '8/5k2/3p4/1p1P1p2/1P3P2/6K1/8/8',
+    options: {
+      frameWidth: 640,
+      frameHeight: 360,
+      theme: 'green',
+      pieceSet: 'letters',
+      orientation: 'white',
+      coordinates: 'none',
+      board: { x: 360, y: 60, width: 240, height: 240 },
+    },
+  },
+];
+
+const FIXTURES_DIR = join(dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+for (const spec of FIXTURES) {
+  const { image, label } = renderSample(new Random(spec.seed), { fen: spec.fen, lastMove: null }, spec.options);
+  writeFileSync(join(FIXTURES_DIR, spec.file), encodePng(image.width, image.height, image.data));
+  const { board, highlightedSquares, arrows, effects } = label;
+  console.log(`[GoldenFixtures] ${spec.file}: ${JSON.stringify({ board, highlightedSquares, arrows, effects })}`);
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { ChangeDetector } from '../../src/vision/change-detector';
+import { boardPart, START_BOARD_FEN } from '../../src/vision/fen-utils';
+
+const AFTER_E4 = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR';
+const AFTER_E5 = 'rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR';
+const AFTER_NF3 = 'rnbqkbnr/pppp1ppp/8/4p3/4P3/5N2/PPPP1PPP/RNBQKBNR';
+const AFTER_NC6 = 'r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKBNR';
+// 1. e4 with the h2 pawn misread as an empty square.
+const AFTER_E4_MISREAD = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PP1/RNBQKBNR';
+
+describe('ChangeDetector', () => {
+  it('keeps the highlighted legal move over a board with a misread square', () => {
+    const detector = new ChangeDetector();
+    detector.detect(`${START_BOARD_FEN} w KQkq - 0 1`);
+
+    const change = detector.detect(`${AFTER_E4_MISREAD} w KQkq - 0 1`, ['e2', 'e4']);
+    expect(change.type).toBe('move');
+    expect(change.move?.san).toBe('e4');
+    expect(boardPart(change.fen)).toBe(AFTER_E4);
+
+    // The same misread on the next frame is not a new change.
+    const repeated = detector.detect(`${AFTER_E4_MISREAD} w KQkq - 0 1`, ['e2', 'e4']);
+    expect(repeated.type).toBe('no-change');
+    expect(boardPart(repeated.fen)).toBe(AFTER_E4);
+
+    // The next move is diffed against the corrected board.
+    const reply = detector.detect(`${AFTER_E5} w KQkq - 0 1`, ['e7', 'e5']);
+    expect(reply.type).toBe('move');
+    expect(reply.move?.san).toBe('e5');
+  });
+
+  it('rewinds to a recorded position after a seek, with its game state', () => {
+    const detector = new ChangeDetector();
+    for (const board of [START_BOARD_FEN, AFTER_E4, AFTER_E5, AFTER_NF3]) {
+      detector.detect(`${board} w KQkq - 0 1`);
+    }
+
+    detector.notifySeek();
+    const rewound = detector.detect(`${AFTER_E4} w KQkq - 0 1`);
+    expect(rewound.type).toBe('seek');
+    expect(rewound.fen).toBe(`${AFTER_E4} b KQkq e3 0 1`);
+
+    // Play continues from the rewound position.
+    const replayed = detector.detect(`${AFTER_E5} w KQkq - 0 1`);
+    expect(replayed.type).toBe('move');
+    expect(replayed.move?.san).toBe('e5');
+  });
+
+  it('matches a jump to a recorded position without a seek notice', () => {
+    const detector = new ChangeDetector();
+    for (const board of [START_BOARD_FEN, AFTER_E4, AFTER_E5, AFTER_NF3, AFTER_NC6]) {
+      detector.detect(`${board} w KQkq - 0 1`);
+    }
+
+    // Six squares differ from the start position, too many for one move.
+    const rewound = detector.detect(`${START_BOARD_FEN} w KQkq - 0 1`);
+    expect(rewound.type).toBe('seek');
+    expect(rewound.fen).toBe(`${START_BOARD_FEN} w KQkq - 0 1`);
+  });
+
+  it('treats a seek to an unrecorded position as an ordinary change', () => {
+    const detector = new ChangeDetector();
+    for (const board of [START_BOARD_FEN, AFTER_E4]) {
+      detector.detect(`${board} w KQkq - 0 1`);
+    }
+
+    detector.notifySeek();
+    const change = detector.detect(`${AFTER_E5} w KQkq - 0 1`);
+    expect(change.type).toBe('move');
+    expect(change.move?.san).toBe('e5');
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { START_BOARD_FEN } from '../../src/vision/fen-utils';
+import {
+  advanceGameState,
+  confirmTurnFromHighlights,
+  initialGameState,
+  resyncGameState,
+  type TrackedGameState,
+} from '../../src/vision/game-state';
+import type { DetectedMove } from '../../src/vision/move-inference';
+
+function move(fields: Pick<DetectedMove, 'from' | 'to' | 'color' | 'piece'> & Partial<DetectedMove>): DetectedMove {
+  return {
+    san: '',
+    uci: `${fields.from}${fields.to}`,
+    captured: null,
+    promotion: null,
+    isCastle: false,
+    isEnPassant: false,
+    ...fields,
+  };
+}
+
+const MIDGAME: TrackedGameState = {
+  turn: 'w',
+  castling: 'KQkq',
+  enPassant: '-',
+  halfmoveClock: 3,
+  fullmoveNumber: 5,
+  turnConfirmed: true,
+};
+
+describe('game state', () => {
+  it('revokes both castling rights when the king moves', () => {
+    const state = advanceGameState(MIDGAME, move({ from: 'e1', to: 'f1', color: 'w', piece: 'k' }));
+    expect(state.castling).toBe('kq');
+  });
+
+  it('revokes one castling right when a rook leaves or is captured on its corner', () => {
+    const rookMoved = advanceGameState(MIDGAME, move({ from: 'h1', to: 'g1', color: 'w', piece: 'r' }));
+    expect(rookMoved.castling).toBe('Qkq');
+
+    const rookTaken = advanceGameState(
+      { ...MIDGAME, castling: 'Qkq' },
+      move({ from: 'g2', to: 'a8', color: 'w', piece: 'b', captured: 'r' }),
+    );
+    expect(rookTaken.castling).toBe('Qk');
+  });
+
+  it('records the en passant square after a double push and resets the halfmove clock', () => {
+    const state = advanceGameState(MIDGAME, move({ from: 'd2', to: 'd4', color: 'w', piece: 'p' }));
+    expect(state).toMatchObject({ turn: 'b', enPassant: 'd3', halfmoveClock: 0, fullmoveNumber: 5 });
+
+    const reply = advanceGameState(state, move({ from: 'g8', to: 'f6', color: 'b', piece: 'n' }));
+    expect(reply).toMatchObject({ turn: 'w', enPassant: '-', halfmoveClock: 1, fullmoveNumber: 6 });
+  });
+
+  it('keeps move numbers aligned when a move was missed', () => {
+    // White's fifth move went unseen; Black's reply still closes move 5.
+    const missedWhite = advanceGameState(MIDGAME, move({ from: 'e7', to: 'e6', color: 'b', piece: 'p' }));
+    expect(missedWhite).toMatchObject({ turn: 'w', fullmoveNumber: 6 });
+
+    // Black's fifth move went unseen; White's next move is move 6.
+    const missedBlack = advanceGameState(
+      { ...MIDGAME, turn: 'b' },
+      move({ from: 'b1', to: 'c3', color: 'w', piece: 'n' }),
+    );
+    expect(missedBlack).toMatchObject({ turn: 'b', fullmoveNumber: 6 });
+  });
+
+  it('drops the rights a resynced board rules out and stops trusting the side to move', () => {
+    // White's king is off e1.
+    const state = resyncGameState(MIDGAME, 'r3k2r/8/8/8/8/8/8/R4K1R w - - 0 1');
+    expect(state).toMatchObject({ castling: 'kq', turnConfirmed: false, halfmoveClock: 3, fullmoveNumber: 5 });
+  });
+
+  it('takes the side to move from the last-move highlights', () => {
+    const joined = initialGameState('rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w - - 0 1');
+    expect(joined.turnConfirmed).toBe(false);
+
+    const state = confirmTurnFromHighlights(joined, 'rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR', ['e7', 'e5']);
+    expect(state).toMatchObject({ turn: 'w', turnConfirmed: true });
+  });
+
+  it('starts the standard position with full rights and White to move', () => {
+    expect(initialGameState(`${START_BOARD_FEN} w - - 0 1`)).toMatchObject({
+      turn: 'w',
+      castling: 'KQkq',
+      turnConfirmed: true,
+    });
+  });
+});
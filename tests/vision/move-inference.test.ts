@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { inferMove } from '../../src/vision/move-inference';
+
+describe('inferMove', () => {
+  it('infers castling from the king and rook squares', () => {
+    const inferred = inferMove(
+      'r1bqkbnr/pppp1ppp/2n5/4p3/2B1P3/5N2/PPPP1PPP/RNBQK2R w KQkq - 4 4',
+      'r1bqkbnr/pppp1ppp/2n5/4p3/2B1P3/5N2/PPPP1PPP/RNBQ1RK1',
+    );
+    expect(inferred?.move).toMatchObject({ san: 'O-O', uci: 'e1g1', color: 'w', piece: 'k', isCastle: true });
+  });
+
+  it('infers en passant when the previous state did not record the target square', () => {
+    const inferred = inferMove(
+      'rnbqkbnr/ppp1p1pp/8/3pPp2/8/8/PPPP1PPP/RNBQKBNR w KQkq - 0 3',
+      'rnbqkbnr/ppp1p1pp/5P2/3p4/8/8/PPPP1PPP/RNBQKBNR',
+    );
+    expect(inferred?.move).toMatchObject({ san: 'exf6', uci: 'e5f6', captured: 'p', isEnPassant: true });
+  });
+
+  it('infers the promoted piece from the board', () => {
+    const queen = inferMove('8/4P1k1/8/8/8/8/6K1/8 w - - 0 1', '4Q3/6k1/8/8/8/8/6K1/8');
+    expect(queen?.move).toMatchObject({ uci: 'e7e8q', promotion: 'q' });
+
+    const knight = inferMove('8/4P1k1/8/8/8/8/6K1/8 w - - 0 1', '4N3/6k1/8/8/8/8/6K1/8');
+    expect(knight?.move).toMatchObject({ uci: 'e7e8n', promotion: 'n' });
+  });
+
+  it('finds a move by the side the previous state did not expect to move', () => {
+    const inferred = inferMove(
+      'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 1',
+      'rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR',
+    );
+    expect(inferred?.move).toMatchObject({ san: 'e5', color: 'b' });
+  });
+
+  it('returns null when no single legal move explains the board', () => {
+    const inferred = inferMove(
+      'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
+      'rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR',
+    );
+    expect(inferred).toBeNull();
+  });
+});
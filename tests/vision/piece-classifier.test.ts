@@ -0,0 +1,47 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { rotatePieces180 } from '../../src/vision/fen-utils';
+import { PieceClassifier } from '../../src/vision/piece-classifier';
+import { createImageData } from '../golden/image-data';
+import { decodePng } from '../golden/png';
+
+// The middlegame golden fixture, cropped to its board; its pieces are not symmetric under rotation.
+function loadBoard(): ImageData {
+  const png = decodePng(readFileSync(join(__dirname, '../golden/fixtures/synthetic-middlegame-brown.png')));
+  const region = { x: 96, y: 104, size: 360 };
+  const data = new Uint8ClampedArray(region.size * region.size * 4);
+  for (let row = 0; row < region.size; row++) {
+    const start = ((region.y + row) * png.width + region.x) * 4;
+    data.set(png.data.subarray(start, start + region.size * 4), row * region.size * 4);
+  }
+  return createImageData(data, region.size, region.size);
+}
+
+describe('PieceClassifier', () => {
+  it('keeps confidences paired with pieces on flipped boards', async () => {
+    const board = loadBoard();
+    const classifier = new PieceClassifier({ forceMock: true });
+    classifier.calibrate(board);
+
+    const upright = await classifier.classifyDetailed(board);
+    const flipped = await classifier.classifyDetailed(board, { forceFlip: true });
+
+    expect(flipped.pieces).toEqual(rotatePieces180(upright.pieces));
+    expect(Array.from(flipped.confidences)).toEqual(Array.from(upright.confidences).reverse());
+  });
+
+  it('keeps incremental reads when recalibrating on the same board', async () => {
+    const board = loadBoard();
+    const classifier = new PieceClassifier({ forceMock: true });
+    classifier.calibrate(board);
+    const full = await classifier.classifyDetailed(board, { changedSquares: [] });
+
+    // Same colors learned again: the unchanged squares are not read afresh, so a blank frame
+    // still returns the previous position.
+    expect(classifier.calibrate(board)).toBe(true);
+    const blank = createImageData(new Uint8ClampedArray(board.data.length), board.width, board.height);
+    const reused = await classifier.classifyDetailed(blank, { changedSquares: [] });
+    expect(reused.pieces).toEqual(full.pieces);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { ChangeDetector, type ChangeDetection } from '../../src/vision/change-detector';
+import { boardPart, fenToPieces, piecesToFen, START_BOARD_FEN } from '../../src/vision/fen-utils';
+import { PositionStabilizer } from '../../src/vision/position-stabilizer';
+
+const AFTER_E4 = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR';
+const AFTER_E5 = 'rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR';
+
+// The stabilizer and change detector wired as in VisionPipeline.deliverResult.
+function createReader() {
+  const stabilizer = new PositionStabilizer({ minFrames: 2, minDwellMs: 1000 });
+  const detector = new ChangeDetector();
+  let now = 0;
+
+  const frame = (board: string): ChangeDetection | null => {
+    now += 100;
+    const stable = stabilizer.push(fenToPieces(board), new Float32Array(64).fill(1), now);
+    return stable ? detector.detect(piecesToFen(stable)) : null;
+  };
+
+  return { stabilizer, detector, frame };
+}
+
+describe('PositionStabilizer with ChangeDetector', () => {
+  it('reports moves once their position has persisted', () => {
+    const { frame } = createReader();
+    expect(frame(START_BOARD_FEN)).toBeNull();
+    expect(frame(START_BOARD_FEN)?.type).toBe('new-game');
+
+    expect(frame(AFTER_E4)?.type).toBe('no-change');
+    const change = frame(AFTER_E4);
+    expect(change?.type).toBe('move');
+    expect(change?.move?.san).toBe('e4');
+  });
+
+  it('keeps a seek pending while the old position is still held', () => {
+    const { detector, frame } = createReader();
+    for (const board of [START_BOARD_FEN, START_BOARD_FEN, AFTER_E4, AFTER_E4, AFTER_E5, AFTER_E5]) {
+      frame(board);
+    }
+
+    detector.notifySeek();
+    expect(frame(AFTER_E4)?.type).toBe('no-change');
+    const rewound = frame(AFTER_E4);
+    expect(rewound?.type).toBe('seek');
+    expect(boardPart(rewound?.fen ?? '')).toBe(AFTER_E4);
+  });
+
+  it('rewinds when the stabilizer is reset on seek', () => {
+    const { stabilizer, detector, frame } = createReader();
+    for (const board of [START_BOARD_FEN, START_BOARD_FEN, AFTER_E4, AFTER_E4, AFTER_E5, AFTER_E5]) {
+      frame(board);
+    }
+
+    stabilizer.reset();
+    detector.notifySeek();
+    expect(frame(START_BOARD_FEN)).toBeNull();
+    const rewound = frame(START_BOARD_FEN);
+    expect(rewound?.type).toBe('seek');
+    expect(boardPart(rewound?.fen ?? '')).toBe(START_BOARD_FEN);
+  });
+
+  it('ignores a transient board that does not persist', () => {
+    const { frame } = createReader();
+    frame(START_BOARD_FEN);
+    frame(START_BOARD_FEN);
+
+    // A piece mid-drag for one frame.
+    expect(frame('rnbqkbnr/pppppppp/8/8/8/8/PPPP1PPP/RNBQKBNR')?.type).toBe('no-change');
+    expect(frame(START_BOARD_FEN)?.type).toBe('no-change');
+  });
+});
@@ -0,0 +1,181 @@
+import type { Random } from './random';
+import type { Raster } from './raster';
+
+// Standard JPEG quantization tables (ITU T.81, Annex K), luminance and chrominance.
+const LUMA_TABLE = [
+  16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55, 14, 13, 16, 24, 40, 57, 69, 56, 14, 17, 22, 29, 51,
+  87, 80, 62, 18, 22, 37, 56, 68, 109, 103, 77, 24, 35, 55, 64, 81, 104, 113, 92, 49, 64, 78, 87, 103, 121, 120, 101,
+  72, 92, 95, 98, 112, 100, 103, 99,
+];
+const CHROMA_TABLE = [
+  17, 18, 24, 47, 99, 99, 99, 99, 18, 21, 26, 66, 99, 99, 99, 99, 24, 26, 56, 99, 99, 99, 99, 99, 47, 66, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99,
+];
+
+const COSINES = Array.from({ length: 64 }, (_, i) => {
+  const x = Math.floor(i / 8);
+  const u = i % 8;
+  return Math.cos(((2 * x + 1) * u * Math.PI) / 16);
+});
+
+export function addNoise(raster: Raster, random: Random, sigma: number): void {
+  const { data } = raster;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] += random.gaussian() * sigma;
+    data[i + 1] += random.gaussian() * sigma;
+    data[i + 2] += random.gaussian() * sigma;
+  }
+}
+
+// Lose detail the way a low-resolution stream does: scale down by `factor`, then back up.
+export function rescale(raster: Raster, factor: number): void {
+  const { width, height, data } = raster;
+  const smallWidth = Math.max(1, Math.round(width / factor));
+  const smallHeight = Math.max(1, Math.round(height / factor));
+  const small = new Float32Array(smallWidth * smallHeight * 3);
+  const counts = new Float32Array(smallWidth * smallHeight);
+
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(smallHeight - 1, Math.floor((y * smallHeight) / height));
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(smallWidth - 1, Math.floor((x * smallWidth) / width));
+      const cell = sy * smallWidth + sx;
+      const i = (y * width + x) * 4;
+      small[cell * 3] += data[i];
+      small[cell * 3 + 1] += data[i + 1];
+      small[cell * 3 + 2] += data[i + 2];
+      counts[cell] += 1;
+    }
+  }
+
+  const sample = (sx: number, sy: number, channel: number): number => {
+    const cell = Math.min(smallHeight - 1, Math.max(0, sy)) * smallWidth + Math.min(smallWidth - 1, Math.max(0, sx));
+    return small[cell * 3 + channel] / counts[cell];
+  };
+
+  // Bilinear upscale.
+  for (let y = 0; y < height; y++) {
+    const fy = ((y + 0.5) * smallHeight) / height - 0.5;
+    const y0 = Math.floor(fy);
+    const ty = fy - y0;
+    for (let x = 0; x < width; x++) {
+      const fx = ((x + 0.5) * smallWidth) / width - 0.5;
+      const x0 = Math.floor(fx);
+      const tx = fx - x0;
+      const i = (y * width + x) * 4;
+      for (let channel = 0; channel < 3; channel++) {
+        const top = sample(x0, y0, channel) * (1 - tx) + sample(x0 + 1, y0, channel) * tx;
+        const bottom = sample(x0, y0 + 1, channel) * (1 - tx) + sample(x0 + 1, y0 + 1, channel) * tx;
+        data[i + channel] = top * (1 - ty) + bottom * ty;
+      }
+    }
+  }
+}
+
+// Blocking and ringing as from a JPEG (or video codec) at `quality` 1..100: each 8x8 block of
+// the YCbCr planes is transformed, quantized and transformed back.
+export function compressionArtifacts(raster: Raster, quality: number): void {
+  const { width, height, data } = raster;
+  const scale = quality < 50 ? 5000 / quality : 200 - quality * 2;
+  const tables = [LUMA_TABLE, CHROMA_TABLE, CHROMA_TABLE].map((table) =>
+    table.map((q) => Math.min(255, Math.max(1, Math.floor((q * scale + 50) / 100)))),
+  );
+
+  const planes = [0, 1, 2].map(() => new Float32Array(width * height));
+  for (let p = 0; p < width * height; p++) {
+    const r = data[p * 4];
+    const g = data[p * 4 + 1];
+    const b = data[p * 4 + 2];
+    planes[0][p] = 0.299 * r + 0.587 * g + 0.114 * b - 128;
+    planes[1][p] = -0.168736 * r - 0.331264 * g + 0.5 * b;
+    planes[2][p] = 0.5 * r - 0.418688 * g - 0.081312 * b;
+  }
+
+  const block = new Float32Array(64);
+  const coefficients = new Float32Array(64);
+  planes.forEach((plane, index) => {
+    const table = tables[index];
+    for (let by = 0; by < height; by += 8) {
+      for (let bx = 0; bx < width; bx += 8) {
+        for (let i = 0; i < 64; i++) {
+          const x = Math.min(width - 1, bx + (i % 8));
+          const y = Math.min(height - 1, by + Math.floor(i / 8));
+          block[i] = plane[y * width + x];
+        }
+
+        forwardDct(block, coefficients);
+        for (let i = 0; i < 64; i++) {
+          coefficients[i] = Math.round(coefficients[i] / table[i]) * table[i];
+        }
+        inverseDct(coefficients, block);
+
+        for (let i = 0; i < 64; i++) {
+          const x = bx + (i % 8);
+          const y = by + Math.floor(i / 8);
+          if (x < width && y < height) {
+            plane[y * width + x] = block[i];
+          }
+        }
+      }
+    }
+  });
+
+  for (let p = 0; p < width * height; p++) {
+    const luma = planes[0][p] + 128;
+    const cb = planes[1][p];
+    const cr = planes[2][p];
+    data[p * 4] = luma + 1.402 * cr;
+    data[p * 4 + 1] = luma - 0.344136 * cb - 0.714136 * cr;
+    data[p * 4 + 2] = luma + 1.772 * cb;
+  }
+}
+
+const scratch = new Float32Array(64);
+
+function normalization(k: number): number {
+  return k === 0 ? Math.SQRT1_2 : 1;
+}
+
+// Separable 8x8 DCT-II: along rows into `scratch`, then down the columns.
+function forwardDct(input: Float32Array, output: Float32Array): void {
+  for (let y = 0; y < 8; y++) {
+    for (let u = 0; u < 8; u++) {
+      let sum = 0;
+      for (let x = 0; x < 8; x++) {
+        sum += input[y * 8 + x] * COSINES[x * 8 + u];
+      }
+      scratch[y * 8 + u] = 0.5 * normalization(u) * sum;
+    }
+  }
+  for (let v = 0; v < 8; v++) {
+    for (let u = 0; u < 8; u++) {
+      let sum = 0;
+      for (let y = 0; y < 8; y++) {
+        sum += scratch[y * 8 + u] * COSINES[y * 8 + v];
+      }
+      output[v * 8 + u] = 0.5 * normalization(v) * sum;
+    }
+  }
+}
+
+function inverseDct(input: Float32Array, output: Float32Array): void {
+  for (let v = 0; v < 8; v++) {
+    for (let x = 0; x < 8; x++) {
+      let sum = 0;
+      for (let u = 0; u < 8; u++) {
+        sum += normalization(u) * input[v * 8 + u] * COSINES[x * 8 + u];
+      }
+      scratch[v * 8 + x] = 0.5 * sum;
+    }
+  }
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      let sum = 0;
+      for (let v = 0; v < 8; v++) {
+        sum += normalization(v) * scratch[v * 8 + x] * COSINES[y * 8 + v];
+      }
+      output[y * 8 + x] = 0.5 * sum;
+    }
+  }
+}
@@ -0,0 +1,84 @@
+// Renders labeled synthetic board frames for training and evaluating the piece classifier.
+//
+//   npm run generate:boards -- --count 500 --out synthetic-boards --seed 7 [--fens positions.txt]
+//
+// Writes NNNNN.png and NNNNN.json (FEN, board rectangle, orientation, ...) per sample. With
+// --fens, positions are taken from the file in turn (one FEN per line) instead of generated.
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { encodePng } from './png';
+import { Random, randomPosition, type SyntheticPosition } from './random';
+import { renderSample } from './renderer';
+
+interface GeneratorArgs {
+  count: number;
+  out: string;
+  seed: number;
+  width: number;
+  height: number;
+  fens: string | null;
+}
+
+const DEFAULT_ARGS: GeneratorArgs = {
+  count: 100,
+  out: 'synthetic-boards',
+  seed: 1,
+  width: 1280,
+  height: 720,
+  fens: null,
+};
+
+function parseArgs(argv: string[]): GeneratorArgs {
+  const args = { ...DEFAULT_ARGS };
+  for (let i = 0; i < argv.length; i += 2) {
+    const name = argv[i].replace(/^--/, '');
+    const value = argv[i + 1];
+    if (value === undefined) {
+      throw new Error(`Missing value for --${name}`);
+    }
+
+    if (name === 'out' || name === 'fens') {
+      args[name] = value;
+    } else if (name === 'count' || name === 'seed' || name === 'width' || name === 'height') {
+      const parsed = Number(value);
+      if (!Number.isInteger(parsed) || parsed < 0) {
+        throw new Error(`--${name} must be a non-negative integer`);
+      }
+      args[name] = parsed;
+    } else {
+      throw new Error(`Unknown option --${name}`);
+    }
+  }
+  return args;
+}
+
+function main(): void {
+  const args = parseArgs(process.argv.slice(2));
+  const random = new Random(args.seed);
+  const fens = args.fens
+    ? readFileSync(args.fens, 'utf8')
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0)
+    : null;
+
+  mkdirSync(args.out, { recursive: true });
+
+  for (let i = 0; i < args.count; i++) {
+    const position: SyntheticPosition = fens
+      ? { fen: fens[i % fens.length].split(/\s+/)[0], lastMove: null }
+      : randomPosition(random);
+    const sample = renderSample(random, position, { frameWidth: args.width, frameHeight: args.height });
+
+    const id = String(i).padStart(5, '0');
+    writeFileSync(join(args.out, `${id}.png`), encodePng(sample.image.width, sample.image.height, sample.image.data));
+    const label = { image: `${id}.png`, ...sample.label };
+    writeFileSync(join(args.out, `${id}.json`), `${JSON.stringify(label, null, 2)}\n`);
+
+    if ((i + 1) % 25 === 0 || i + 1 === args.count) {
+      console.log(`[SyntheticBoards] ${i + 1}/${args.count} written to ${args.out}`);
+    }
+  }
+}
+
+main();
@@ -0,0 +1,158 @@
+import { glyphCovers } from './glyphs';
+import type { Rgb } from './raster';
+
+export type PieceType = 'p' | 'n' | 'b' | 'r' | 'q' | 'k';
+
+export interface PieceSet {
+  name: string;
+  // Outline thickness as a fraction of the square; 0 for none.
+  outline: number;
+  white: { fill: Rgb; outline: Rgb };
+  black: { fill: Rgb; outline: Rgb };
+  // Whether the piece covers (u, v) of its square, both 0..1 with v pointing down.
+  covers(type: PieceType, u: number, v: number): boolean;
+  // Details drawn over the body in the outline color (letters, slits).
+  marks?(type: PieceType, u: number, v: number): boolean;
+}
+
+type Point = readonly [number, number];
+
+function inEllipse(u: number, v: number, cx: number, cy: number, rx: number, ry: number): boolean {
+  return ((u - cx) / rx) ** 2 + ((v - cy) / ry) ** 2 <= 1;
+}
+
+function inRect(u: number, v: number, x0: number, y0: number, x1: number, y1: number): boolean {
+  return u >= x0 && u <= x1 && v >= y0 && v <= y1;
+}
+
+// Centered on u = 0.5, `topWidth` wide at y0 and `bottomWidth` wide at y1.
+function inTrapezoid(u: number, v: number, y0: number, y1: number, topWidth: number, bottomWidth: number): boolean {
+  if (v < y0 || v > y1) {
+    return false;
+  }
+  const width = topWidth + ((v - y0) / (y1 - y0)) * (bottomWidth - topWidth);
+  return Math.abs(u - 0.5) <= width / 2;
+}
+
+function inPolygon(u: number, v: number, points: readonly Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const [xi, yi] = points[i];
+    const [xj, yj] = points[j];
+    if (yi > v !== yj > v && u < ((xj - xi) * (v - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Half-widths (as a fraction of the square) at heights from the top of the piece to its base;
+// linearly interpolated in between.
+function inProfile(u: number, v: number, profile: readonly Point[]): boolean {
+  if (v < profile[0][0] || v > profile[profile.length - 1][0]) {
+    return false;
+  }
+  for (let i = 1; i < profile.length; i++) {
+    const [y0, w0] = profile[i - 1];
+    const [y1, w1] = profile[i];
+    if (v <= y1) {
+      const halfWidth = y1 === y0 ? w1 : w0 + ((v - y0) / (y1 - y0)) * (w1 - w0);
+      return Math.abs(u - 0.5) <= halfWidth;
+    }
+  }
+  return false;
+}
+
+const KNIGHT_HEAD: readonly Point[] = [
+  [0.3, 0.88],
+  [0.72, 0.88],
+  [0.7, 0.62],
+  [0.66, 0.42],
+  [0.56, 0.26],
+  [0.46, 0.14],
+  [0.42, 0.22],
+  [0.3, 0.3],
+  [0.2, 0.46],
+  [0.24, 0.54],
+  [0.4, 0.5],
+  [0.38, 0.6],
+];
+
+// Side-view silhouettes with smooth profiles, outlined like most online piece sets.
+const STAUNTON_PROFILES: Record<Exclude<PieceType, 'n'>, readonly Point[]> = {
+  p: [[0.3, 0.06], [0.34, 0.11], [0.42, 0.1], [0.46, 0.06], [0.56, 0.08], [0.72, 0.17], [0.78, 0.26], [0.88, 0.27]],
+  r: [[0.22, 0.23], [0.32, 0.23], [0.36, 0.17], [0.42, 0.14], [0.66, 0.16], [0.76, 0.24], [0.88, 0.28]],
+  b: [[0.1, 0.03], [0.14, 0.05], [0.2, 0.1], [0.3, 0.14], [0.4, 0.12], [0.46, 0.08], [0.6, 0.1], [0.74, 0.18],
+    [0.88, 0.28]],
+  q: [[0.1, 0.05], [0.14, 0.05], [0.18, 0.22], [0.3, 0.16], [0.44, 0.1], [0.6, 0.12], [0.74, 0.2], [0.88, 0.29]],
+  k: [[0.04, 0.02], [0.16, 0.02], [0.18, 0.08], [0.24, 0.17], [0.36, 0.14], [0.48, 0.1], [0.62, 0.12],
+    [0.76, 0.2], [0.88, 0.29]],
+};
+
+const staunton: PieceSet = {
+  name: 'staunton',
+  outline: 0.035,
+  white: { fill: [248, 248, 244], outline: [30, 30, 30] },
+  black: { fill: [52, 50, 48], outline: [16, 16, 16] },
+  covers(type, u, v) {
+    if (type === 'n') {
+      return inPolygon(u, v, KNIGHT_HEAD);
+    }
+    // The king's cross bar.
+    if (type === 'k' && inRect(u, v, 0.43, 0.08, 0.57, 0.12)) {
+      return true;
+    }
+    return inProfile(u, v, STAUNTON_PROFILES[type]);
+  },
+  marks(type, u, v) {
+    // The bishop's mitre cut.
+    return type === 'b' && Math.abs(u - 0.5 - (0.27 - v) * 0.8) < 0.015 && v > 0.2 && v < 0.3;
+  },
+};
+
+// Flat pieces built from simple shapes with a hairline edge, as on minimalist board themes.
+const geometric: PieceSet = {
+  name: 'geometric',
+  outline: 0.015,
+  white: { fill: [236, 236, 236], outline: [96, 96, 96] },
+  black: { fill: [34, 34, 38], outline: [12, 12, 14] },
+  covers(type, u, v) {
+    const base = inRect(u, v, 0.2, 0.8, 0.8, 0.88);
+    switch (type) {
+      case 'p':
+        return base || inEllipse(u, v, 0.5, 0.38, 0.12, 0.12) || inTrapezoid(u, v, 0.46, 0.8, 0.12, 0.34);
+      case 'r': {
+        const crenel = v < 0.3 && (Math.abs(u - 0.38) < 0.04 || Math.abs(u - 0.62) < 0.04);
+        return base || inRect(u, v, 0.33, 0.34, 0.67, 0.8) || (inRect(u, v, 0.26, 0.2, 0.74, 0.36) && !crenel);
+      }
+      case 'n':
+        return base || inPolygon(u, v, KNIGHT_HEAD);
+      case 'b':
+        return base || inEllipse(u, v, 0.5, 0.5, 0.16, 0.24) || inEllipse(u, v, 0.5, 0.2, 0.05, 0.05) ||
+          inTrapezoid(u, v, 0.7, 0.8, 0.16, 0.4);
+      case 'q': {
+        const points = [0.26, 0.38, 0.5, 0.62, 0.74].some((x) => inEllipse(u, v, x, 0.18, 0.05, 0.05));
+        return base || points || inTrapezoid(u, v, 0.2, 0.8, 0.5, 0.3);
+      }
+      case 'k':
+        return base || inRect(u, v, 0.46, 0.06, 0.54, 0.3) || inRect(u, v, 0.38, 0.12, 0.62, 0.19) ||
+          inTrapezoid(u, v, 0.3, 0.8, 0.46, 0.32);
+    }
+  },
+};
+
+// Letters on discs, the way printed diagrams and some streaming overlays show pieces.
+const letters: PieceSet = {
+  name: 'letters',
+  outline: 0.03,
+  white: { fill: [240, 236, 226], outline: [40, 36, 32] },
+  black: { fill: [40, 36, 32], outline: [240, 236, 226] },
+  covers(_type, u, v) {
+    return inEllipse(u, v, 0.5, 0.5, 0.38, 0.38);
+  },
+  marks(type, u, v) {
+    return glyphCovers(type.toUpperCase(), (u - 0.32) / 0.36, (v - 0.25) / 0.5);
+  },
+};
+
+export const PIECE_SETS: readonly PieceSet[] = [staunton, geometric, letters];
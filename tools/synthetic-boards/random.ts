@@ -0,0 +1,102 @@
+import { Chess } from 'chess.js';
+
+// Seeded so a run can be regenerated exactly (mulberry32).
+export class Random {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  // Inclusive of both ends.
+  int(min: number, max: number): number {
+    return Math.floor(this.range(min, max + 1));
+  }
+
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+
+  // Standard normal (Box-Muller).
+  gaussian(): number {
+    const u = Math.max(this.next(), Number.EPSILON);
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * this.next());
+  }
+}
+
+export interface SyntheticPosition {
+  // Board part of the FEN.
+  fen: string;
+  // From and to squares of the move that led here, when there was one.
+  lastMove: [string, string] | null;
+}
+
+const SCATTER_PIECES = ['Q', 'R', 'R', 'B', 'B', 'N', 'N', 'P', 'P', 'P', 'P', 'P'];
+
+// Half the positions come from random games (realistic structure, a real last move), the other
+// half are pieces scattered anywhere (every piece on every square color sooner or later).
+export function randomPosition(random: Random): SyntheticPosition {
+  return random.chance(0.5) ? randomGamePosition(random) : scatteredPosition(random);
+}
+
+function randomGamePosition(random: Random): SyntheticPosition {
+  const chess = new Chess();
+  const plies = random.int(0, 90);
+  let lastMove: [string, string] | null = null;
+
+  for (let i = 0; i < plies && !chess.isGameOver(); i++) {
+    const move = random.pick(chess.moves({ verbose: true }));
+    chess.move(move);
+    lastMove = [move.from, move.to];
+  }
+
+  return { fen: chess.fen().split(' ')[0], lastMove };
+}
+
+function scatteredPosition(random: Random): SyntheticPosition {
+  const board = new Array<string>(64).fill('1');
+  const place = (piece: string): void => {
+    for (;;) {
+      const square = random.int(0, 63);
+      const rank = Math.floor(square / 8);
+      if (board[square] === '1' && (piece.toLowerCase() !== 'p' || (rank > 0 && rank < 7))) {
+        board[square] = piece;
+        return;
+      }
+    }
+  };
+
+  place('K');
+  place('k');
+  for (const piece of SCATTER_PIECES) {
+    if (random.chance(0.45)) {
+      place(piece);
+    }
+    if (random.chance(0.45)) {
+      place(piece.toLowerCase());
+    }
+  }
+
+  const ranks: string[] = [];
+  for (let rank = 0; rank < 8; rank++) {
+    ranks.push(board.slice(rank * 8, rank * 8 + 8).join('').replace(/1+/g, (run) => String(run.length)));
+  }
+
+  return { fen: ranks.join('/'), lastMove: null };
+}
@@ -0,0 +1,115 @@
+export type Rgb = readonly [number, number, number];
+
+// Antialiasing samples per pixel along each axis when filling shapes.
+const SUPERSAMPLE = 4;
+
+export function hexToRgb(hex: string): Rgb {
+  const value = Number.parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+export function mixRgb(a: Rgb, b: Rgb, amount: number): Rgb {
+  return [a[0] + (b[0] - a[0]) * amount, a[1] + (b[1] - a[1]) * amount, a[2] + (b[2] - a[2]) * amount];
+}
+
+// An RGBA image the renderer paints into; opaque throughout.
+export class Raster {
+  readonly data: Uint8ClampedArray;
+
+  constructor(
+    readonly width: number,
+    readonly height: number,
+  ) {
+    this.data = new Uint8ClampedArray(width * height * 4).fill(255);
+  }
+
+  blend(x: number, y: number, color: Rgb, alpha = 1): void {
+    if (x < 0 || y < 0 || x >= this.width || y >= this.height || alpha <= 0) {
+      return;
+    }
+
+    const i = (y * this.width + x) * 4;
+    const a = Math.min(1, alpha);
+    this.data[i] += (color[0] - this.data[i]) * a;
+    this.data[i + 1] += (color[1] - this.data[i + 1]) * a;
+    this.data[i + 2] += (color[2] - this.data[i + 2]) * a;
+  }
+
+  fillRect(x: number, y: number, width: number, height: number, color: Rgb, alpha = 1): void {
+    const x0 = Math.max(0, Math.round(x));
+    const y0 = Math.max(0, Math.round(y));
+    const x1 = Math.min(this.width, Math.round(x + width));
+    const y1 = Math.min(this.height, Math.round(y + height));
+    for (let py = y0; py < y1; py++) {
+      for (let px = x0; px < x1; px++) {
+        this.blend(px, py, color, alpha);
+      }
+    }
+  }
+
+  // Coverage (0..1) of `inside`, given in box-relative coordinates (0..1 on both axes), for each
+  // pixel of the box; row-major, width x height.
+  static coverage(
+    width: number,
+    height: number,
+    inside: (u: number, v: number) => boolean,
+  ): Float32Array {
+    const mask = new Float32Array(width * height);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let hits = 0;
+        for (let sy = 0; sy < SUPERSAMPLE; sy++) {
+          for (let sx = 0; sx < SUPERSAMPLE; sx++) {
+            if (inside((x + (sx + 0.5) / SUPERSAMPLE) / width, (y + (sy + 0.5) / SUPERSAMPLE) / height)) {
+              hits += 1;
+            }
+          }
+        }
+        mask[y * width + x] = hits / (SUPERSAMPLE * SUPERSAMPLE);
+      }
+    }
+    return mask;
+  }
+
+  // Shrink a coverage mask by `radius` pixels (minimum over the neighborhood).
+  static erode(mask: Float32Array, width: number, height: number, radius: number): Float32Array {
+    let current = mask;
+    for (let pass = 0; pass < radius; pass++) {
+      const next = new Float32Array(current.length);
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const left = current[y * width + Math.max(0, x - 1)];
+          const right = current[y * width + Math.min(width - 1, x + 1)];
+          const up = current[Math.max(0, y - 1) * width + x];
+          const down = current[Math.min(height - 1, y + 1) * width + x];
+          next[y * width + x] = Math.min(current[y * width + x], left, right, up, down);
+        }
+      }
+      current = next;
+    }
+    return current;
+  }
+
+  paintMask(mask: Float32Array, x: number, y: number, width: number, color: Rgb, alpha = 1): void {
+    const height = mask.length / width;
+    for (let row = 0; row < height; row++) {
+      for (let col = 0; col < width; col++) {
+        this.blend(x + col, y + row, color, mask[row * width + col] * alpha);
+      }
+    }
+  }
+
+  fillShape(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    inside: (u: number, v: number) => boolean,
+    color: Rgb,
+    alpha = 1,
+  ): void {
+    const w = Math.max(1, Math.round(width));
+    const h = Math.max(1, Math.round(height));
+    this.paintMask(Raster.coverage(w, h, inside), Math.round(x), Math.round(y), w, color, alpha);
+  }
+}
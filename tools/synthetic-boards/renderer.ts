@@ -0,0 +1,412 @@
+import { BOARD_THEMES, type BoardOrientation } from '../../src/board/interactive-board';
+import { fenToPieces } from '../../src/vision/fen-utils';
+import { addNoise, compressionArtifacts, rescale } from './effects';
+import { glyphCovers } from './glyphs';
+import { PIECE_SETS, type PieceSet, type PieceType } from './piece-sets';
+import type { Random, SyntheticPosition } from './random';
+import { hexToRgb, mixRgb, Raster, type Rgb } from './raster';
+
+export interface BoardTheme {
+  name: string;
+  light: Rgb;
+  dark: Rgb;
+  // Wood-like streaks across the squares.
+  grain: boolean;
+}
+
+export type CoordinateStyle = 'inside' | 'outside' | 'none';
+
+export interface SyntheticArrow {
+  from: string;
+  to: string;
+}
+
+export interface SampleLabel {
+  // Board part of the FEN, white at the top of the string as usual.
+  fen: string;
+  // The 8x8 squares in frame pixels, without any border or outside coordinates.
+  board: { x: number; y: number; width: number; height: number };
+  // Side shown at the bottom.
+  orientation: BoardOrientation;
+  theme: string;
+  pieceSet: string;
+  coordinates: CoordinateStyle;
+  highlightedSquares: string[];
+  arrows: SyntheticArrow[];
+  effects: { rescale: number | null; noise: number; quality: number | null };
+}
+
+export interface SyntheticSample {
+  image: Raster;
+  label: SampleLabel;
+}
+
+export interface RenderOptions {
+  frameWidth: number;
+  frameHeight: number;
+  // Fixed choices instead of random ones, for frames that must show something specific.
+  theme?: string;
+  pieceSet?: string;
+  orientation?: BoardOrientation;
+  coordinates?: CoordinateStyle;
+  board?: SampleLabel['board'];
+}
+
+// The side panel's themes plus a few common on streams that it does not offer.
+export const SYNTHETIC_THEMES: readonly BoardTheme[] = [
+  ...Object.entries(BOARD_THEMES).map(([name, palette]) => ({
+    name,
+    light: hexToRgb(palette.light),
+    dark: hexToRgb(palette.dark),
+    grain: false,
+  })),
+  { name: 'wood', light: hexToRgb('#e6c48f'), dark: hexToRgb('#a66f3c'), grain: true },
+  { name: 'purple', light: hexToRgb('#e4dced'), dark: hexToRgb('#8877b7'), grain: false },
+  { name: 'coral', light: hexToRgb('#b1e4b9'), dark: hexToRgb('#70a2a3'), grain: false },
+  { name: 'night', light: hexToRgb('#9aa6b1'), dark: hexToRgb('#4b5865'), grain: false },
+  { name: 'tournament', light: hexToRgb('#f5f5ef'), dark: hexToRgb('#4e8a63'), grain: false },
+];
+
+const HIGHLIGHT_COLORS: readonly Rgb[] = [
+  [255, 255, 51],
+  [155, 199, 0],
+  [255, 228, 92],
+];
+const ARROW_COLORS: readonly Rgb[] = [
+  [245, 158, 11],
+  [21, 120, 27],
+  [200, 40, 40],
+  [0, 48, 136],
+];
+const FILES = 'abcdefgh';
+
+// One fake video frame with a board somewhere in it, and what a reader should find there.
+export function renderSample(random: Random, position: SyntheticPosition, options: RenderOptions): SyntheticSample {
+  const { frameWidth, frameHeight } = options;
+  const image = new Raster(frameWidth, frameHeight);
+  const theme = options.theme ? findByName(SYNTHETIC_THEMES, options.theme) : random.pick(SYNTHETIC_THEMES);
+  const pieceSet = options.pieceSet ? findByName(PIECE_SETS, options.pieceSet) : random.pick(PIECE_SETS);
+  const orientation: BoardOrientation = options.orientation ?? (random.chance(0.5) ? 'white' : 'black');
+  const coordinates = options.coordinates ?? random.pick<CoordinateStyle>(['inside', 'inside', 'outside', 'none']);
+
+  paintBackground(image, random);
+
+  const board = options.board ?? placeBoard(random, frameWidth, frameHeight, coordinates);
+  const { x, y, width: side } = board;
+
+  if (random.chance(0.3)) {
+    const border = Math.max(2, Math.round(side * random.range(0.01, 0.04)));
+    image.fillRect(x - border, y - border, side + border * 2, side + border * 2, mixRgb(theme.dark, [0, 0, 0], 0.5));
+  }
+
+  paintSquares(image, random, board, theme);
+
+  const squareNames = Array.from({ length: 64 }, (_, index) => squareAt(index, orientation));
+  const highlightedSquares = pickHighlights(random, position, squareNames);
+  const highlightColor = random.pick(HIGHLIGHT_COLORS);
+  for (const name of highlightedSquares) {
+    const cell = cellRect(board, squareNames.indexOf(name));
+    image.fillRect(cell.x, cell.y, cell.width, cell.height, highlightColor, 0.45);
+  }
+
+  if (coordinates !== 'none') {
+    paintCoordinates(image, board, theme, orientation, coordinates);
+  }
+
+  const pieces = fenToPieces(position.fen);
+  const shown = orientation === 'white' ? pieces : pieces.slice().reverse();
+  const scale = random.range(0.82, 1);
+  const masks = new Map<string, PieceMasks>();
+  shown.forEach((piece, index) => {
+    if (piece !== '1') {
+      paintPiece(image, pieceSet, piece, cellRect(board, index), scale, masks);
+    }
+  });
+
+  const arrows = pickArrows(random, squareNames);
+  const arrowColor = random.pick(ARROW_COLORS);
+  for (const arrow of arrows) {
+    paintArrow(image, board, squareNames.indexOf(arrow.from), squareNames.indexOf(arrow.to), arrowColor);
+  }
+
+  const effects = applyEffects(image, random);
+
+  return {
+    image,
+    label: {
+      fen: position.fen,
+      board,
+      orientation,
+      theme: theme.name,
+      pieceSet: pieceSet.name,
+      coordinates,
+      highlightedSquares,
+      arrows,
+      effects,
+    },
+  };
+}
+
+function findByName<T extends { name: string }>(items: readonly T[], name: string): T {
+  const item = items.find((candidate) => candidate.name === name);
+  if (!item) {
+    throw new Error(`Unknown name ${name}; expected one of ${items.map((candidate) => candidate.name).join(', ')}`);
+  }
+  return item;
+}
+
+// A random board size and position that leaves room for outside coordinates.
+function placeBoard(
+  random: Random,
+  frameWidth: number,
+  frameHeight: number,
+  coordinates: CoordinateStyle,
+): SampleLabel['board'] {
+  const shortSide = Math.min(frameWidth, frameHeight);
+  const side = Math.round(random.range(Math.max(128, shortSide * 0.3), shortSide * 0.9) / 8) * 8;
+  const margin = coordinates === 'outside' ? Math.ceil(side * 0.05) : 0;
+  const x = random.int(margin, frameWidth - side - margin);
+  const y = random.int(0, frameHeight - side - margin);
+  return { x, y, width: side, height: side };
+}
+
+// Square name shown at `index` (row-major from the top-left of the image).
+function squareAt(index: number, orientation: BoardOrientation): string {
+  const row = Math.floor(index / 8);
+  const col = index % 8;
+  return orientation === 'white' ? `${FILES[col]}${8 - row}` : `${FILES[7 - col]}${row + 1}`;
+}
+
+function cellRect(board: SampleLabel['board'], index: number): SampleLabel['board'] {
+  const size = board.width / 8;
+  const x0 = Math.round(board.x + (index % 8) * size);
+  const y0 = Math.round(board.y + Math.floor(index / 8) * size);
+  const x1 = Math.round(board.x + ((index % 8) + 1) * size);
+  const y1 = Math.round(board.y + (Math.floor(index / 8) + 1) * size);
+  return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+}
+
+// A dark stream layout: gradient, panels, text-like lines and a noisy webcam box.
+function paintBackground(image: Raster, random: Random): void {
+  const top: Rgb = [random.int(10, 70), random.int(10, 70), random.int(10, 70)];
+  const bottom = mixRgb(top, [0, 0, 0], random.range(0, 0.6));
+  for (let y = 0; y < image.height; y++) {
+    image.fillRect(0, y, image.width, 1, mixRgb(top, bottom, y / image.height));
+  }
+
+  for (let i = random.int(2, 6); i > 0; i--) {
+    const shade = random.int(20, 110);
+    image.fillRect(
+      random.int(0, image.width),
+      random.int(0, image.height),
+      random.int(60, image.width / 2),
+      random.int(30, image.height / 2),
+      [shade, shade, shade + random.int(0, 20)],
+      random.range(0.5, 1),
+    );
+  }
+
+  for (let i = random.int(0, 12); i > 0; i--) {
+    const lineX = random.int(0, image.width - 40);
+    const lineY = random.int(0, image.height - 8);
+    const length = random.int(40, 240);
+    for (let dx = 0; dx < length; dx += random.int(3, 9)) {
+      image.fillRect(lineX + dx, lineY, random.int(2, 6), 7, [200, 200, 205], 0.8);
+    }
+  }
+
+  if (random.chance(0.5)) {
+    const camWidth = random.int(80, image.width / 4);
+    const camHeight = Math.round(camWidth * 0.75);
+    const camX = random.int(0, image.width - camWidth);
+    const camY = random.int(0, image.height - camHeight);
+    for (let y = camY; y < camY + camHeight; y++) {
+      for (let x = camX; x < camX + camWidth; x++) {
+        const tone = 90 + 60 * Math.sin(x / 17) * Math.cos(y / 23) + random.gaussian() * 10;
+        image.blend(x, y, [tone + 30, tone, tone - 20]);
+      }
+    }
+  }
+}
+
+function paintSquares(image: Raster, random: Random, board: SampleLabel['board'], theme: BoardTheme): void {
+  const phase = random.range(0, Math.PI * 2);
+  for (let index = 0; index < 64; index++) {
+    const cell = cellRect(board, index);
+    const light = (Math.floor(index / 8) + (index % 8)) % 2 === 0;
+    const color = light ? theme.light : theme.dark;
+    if (!theme.grain) {
+      image.fillRect(cell.x, cell.y, cell.width, cell.height, color);
+      continue;
+    }
+
+    for (let y = cell.y; y < cell.y + cell.height; y++) {
+      for (let x = cell.x; x < cell.x + cell.width; x++) {
+        const streak = Math.sin((light ? x : y) * 0.35 + Math.sin((light ? y : x) * 0.05 + phase) * 3);
+        image.blend(x, y, mixRgb(color, [0, 0, 0], 0.06 + 0.05 * streak));
+      }
+    }
+  }
+}
+
+function paintCoordinates(
+  image: Raster,
+  board: SampleLabel['board'],
+  theme: BoardTheme,
+  orientation: BoardOrientation,
+  style: CoordinateStyle,
+): void {
+  const size = board.width / 8;
+  const glyphHeight = Math.max(7, Math.round(size * (style === 'inside' ? 0.2 : 0.3)));
+  const glyphWidth = Math.round((glyphHeight * 5) / 7);
+
+  for (let i = 0; i < 8; i++) {
+    const file = orientation === 'white' ? FILES[i] : FILES[7 - i];
+    const rank = orientation === 'white' ? String(8 - i) : String(i + 1);
+
+    if (style === 'inside') {
+      // Ranks in the left column's top-left corners, files along the bottom row's bottom-right,
+      // in the other square color as online boards do.
+      const rankColor = i % 2 === 0 ? theme.dark : theme.light;
+      const fileColor = (7 + i) % 2 === 0 ? theme.dark : theme.light;
+      paintGlyph(image, rank, board.x + size * 0.06, board.y + i * size + size * 0.05, glyphWidth, glyphHeight,
+        rankColor);
+      paintGlyph(image, file, board.x + (i + 1) * size - glyphWidth - size * 0.06,
+        board.y + board.height - glyphHeight - size * 0.05, glyphWidth, glyphHeight, fileColor);
+    } else {
+      const color: Rgb = [190, 190, 190];
+      paintGlyph(image, rank, board.x - glyphWidth - size * 0.12, board.y + (i + 0.5) * size - glyphHeight / 2,
+        glyphWidth, glyphHeight, color);
+      paintGlyph(image, file, board.x + (i + 0.5) * size - glyphWidth / 2, board.y + board.height + size * 0.08,
+        glyphWidth, glyphHeight, color);
+    }
+  }
+}
+
+function paintGlyph(
+  image: Raster,
+  char: string,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  color: Rgb,
+): void {
+  image.fillShape(x, y, width, height, (u, v) => glyphCovers(char, u, v), color);
+}
+
+interface PieceMasks {
+  body: Float32Array;
+  fill: Float32Array;
+  marks: Float32Array | null;
+  width: number;
+}
+
+function paintPiece(
+  image: Raster,
+  set: PieceSet,
+  piece: string,
+  cell: SampleLabel['board'],
+  scale: number,
+  cache: Map<string, PieceMasks>,
+): void {
+  const type = piece.toLowerCase() as PieceType;
+  const key = `${type}:${cell.width}x${cell.height}`;
+  let masks = cache.get(key);
+  if (!masks) {
+    const toPiece = (t: number): number => (t - 0.5) / scale + 0.5;
+    const body = Raster.coverage(cell.width, cell.height, (u, v) => set.covers(type, toPiece(u), toPiece(v)));
+    const outline = Math.round(set.outline * cell.width);
+    masks = {
+      body,
+      fill: outline > 0 ? Raster.erode(body, cell.width, cell.height, outline) : body,
+      marks: set.marks
+        ? Raster.coverage(cell.width, cell.height, (u, v) => set.marks?.(type, toPiece(u), toPiece(v)) ?? false)
+        : null,
+      width: cell.width,
+    };
+    cache.set(key, masks);
+  }
+
+  const colors = piece === type ? set.black : set.white;
+  image.paintMask(masks.body, cell.x, cell.y, masks.width, colors.outline);
+  image.paintMask(masks.fill, cell.x, cell.y, masks.width, colors.fill);
+  if (masks.marks) {
+    image.paintMask(masks.marks, cell.x, cell.y, masks.width, colors.outline);
+  }
+}
+
+function pickHighlights(random: Random, position: SyntheticPosition, squareNames: string[]): string[] {
+  if (position.lastMove && random.chance(0.8)) {
+    return [...position.lastMove];
+  }
+  if (random.chance(0.3)) {
+    const from = random.pick(squareNames);
+    const to = random.pick(squareNames.filter((name) => name !== from));
+    return [from, to];
+  }
+  return [];
+}
+
+function pickArrows(random: Random, squareNames: string[]): SyntheticArrow[] {
+  const arrows: SyntheticArrow[] = [];
+  for (let i = random.chance(0.3) ? random.int(1, 3) : 0; i > 0; i--) {
+    const from = random.pick(squareNames);
+    arrows.push({ from, to: random.pick(squareNames.filter((name) => name !== from)) });
+  }
+  return arrows;
+}
+
+// A shaft with a triangular head, from square center to square center.
+function paintArrow(image: Raster, board: SampleLabel['board'], fromIndex: number, toIndex: number, color: Rgb): void {
+  const size = board.width / 8;
+  const center = (index: number): [number, number] => [
+    board.x + ((index % 8) + 0.5) * size,
+    board.y + (Math.floor(index / 8) + 0.5) * size,
+  ];
+  const [x0, y0] = center(fromIndex);
+  const [x1, y1] = center(toIndex);
+  const length = Math.hypot(x1 - x0, y1 - y0);
+  const dirX = (x1 - x0) / length;
+  const dirY = (y1 - y0) / length;
+  const shaftWidth = size * 0.16;
+  const headLength = size * 0.4;
+  const headWidth = size * 0.42;
+
+  const left = Math.min(x0, x1) - size;
+  const top = Math.min(y0, y1) - size;
+  const width = Math.abs(x1 - x0) + size * 2;
+  const height = Math.abs(y1 - y0) + size * 2;
+  image.fillShape(left, top, width, height, (u, v) => {
+    const px = left + u * width - x0;
+    const py = top + v * height - y0;
+    const along = px * dirX + py * dirY;
+    const across = Math.abs(px * -dirY + py * dirX);
+    if (along < 0 || along > length) {
+      return false;
+    }
+    if (along < length - headLength) {
+      return across <= shaftWidth / 2;
+    }
+    return across <= ((length - along) / headLength) * (headWidth / 2);
+  }, color, 0.8);
+}
+
+function applyEffects(image: Raster, random: Random): SampleLabel['effects'] {
+  const scale = random.chance(0.4) ? random.range(1.2, 2.5) : null;
+  if (scale) {
+    rescale(image, scale);
+  }
+
+  const noise = random.chance(0.6) ? random.range(1, 8) : 0;
+  if (noise > 0) {
+    addNoise(image, random, noise);
+  }
+
+  const quality = random.chance(0.7) ? random.int(20, 90) : null;
+  if (quality) {
+    compressionArtifacts(image, quality);
+  }
+
+  return { rescale: scale, noise, quality };
+}